@@ -0,0 +1,264 @@
+import {
+  CartOperation,
+  CartOperationResult,
+  CartRequest,
+  NormalizedCart,
+  NormalizedCartItem,
+  ScenaroAnalyticsAdapterName,
+  ScenaroAnalyticsConfig,
+  ScenaroAnalyticsEvent,
+  ScenaroAnalyticsItem,
+  ScenaroAnyEvent
+} from '../types';
+
+declare global {
+  interface Window {
+    dataLayer?: any[];
+    gtag?: (...args: any[]) => void;
+    analytics?: { track?: (event: string, properties?: Record<string, any>) => void };
+  }
+}
+
+type AnalyticsAdapter = (event: ScenaroAnalyticsEvent) => void;
+
+const ECOMMERCE_EVENTS = ['add_to_cart', 'remove_from_cart'];
+
+/** Segment ecommerce spec names; other events keep their GA4 name */
+const SEGMENT_EVENT_NAMES: Record<string, string> = {
+  add_to_cart: 'Product Added',
+  remove_from_cart: 'Product Removed'
+};
+
+const ADAPTERS: Record<ScenaroAnalyticsAdapterName, AnalyticsAdapter> = {
+  // GTM: clear the previous ecommerce object first so items do not merge across pushes
+  dataLayer: ({ name, params }) => {
+    window.dataLayer = window.dataLayer || [];
+    if (ECOMMERCE_EVENTS.includes(name)) {
+      window.dataLayer.push({ ecommerce: null });
+      window.dataLayer.push({ event: name, ecommerce: params });
+    } else {
+      window.dataLayer.push({ event: name, ...params });
+    }
+  },
+
+  gtag: ({ name, params }) => {
+    window.gtag?.('event', name, params);
+  },
+
+  // One track call per product, Segment ecommerce v2 properties
+  segment: ({ name, params }) => {
+    const track = window.analytics?.track;
+    if (!track) return;
+    const segmentName = SEGMENT_EVENT_NAMES[name];
+    if (!segmentName) {
+      track.call(window.analytics, name, params);
+      return;
+    }
+    for (const item of params.items as ScenaroAnalyticsItem[]) {
+      track.call(window.analytics, segmentName, {
+        product_id: item.item_id,
+        sku: item.sku,
+        name: item.item_name,
+        variant: item.item_variant,
+        price: item.price,
+        quantity: item.quantity,
+        currency: params.currency
+      });
+    }
+  }
+};
+
+/** Cart amounts are in minor units; analytics tools expect major units (decimals from the currency) */
+function toMajorUnits(amount: number, currency: string | null): number {
+  let digits = 2;
+  if (currency) {
+    try {
+      digits = new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      // Unknown currency code: keep 2 decimals
+    }
+  }
+  return amount / Math.pow(10, digits);
+}
+
+function toItem(item: NormalizedCartItem, quantity: number, currency: string | null): ScenaroAnalyticsItem {
+  return {
+    item_id: item.productId,
+    item_name: item.name,
+    item_variant: item.variantId,
+    sku: item.sku,
+    price: toMajorUnits(item.unitPrice, currency),
+    quantity
+  };
+}
+
+/**
+ * Turns widget events into analytics events (funnel + GA4 ecommerce) and forwards them to the
+ * configured adapters. Cart actions are derived from cartRequest/cartResponse pairs, diffed
+ * against the last known cart so removals and quantity changes carry product data.
+ */
+export class AnalyticsTracker {
+  private adapters: AnalyticsAdapter[];
+  private consent: NonNullable<ScenaroAnalyticsConfig['consent']> | 'denied';
+  private queue: ScenaroAnalyticsEvent[] = [];
+  private publicationId: string;
+  private openedAt: number | null = null;
+  private lastCart: NormalizedCart | null = null;
+  /** Cart requests awaiting their response, by requestId */
+  private pendingRequests: Map<string, CartRequest> = new Map();
+
+  constructor(config: ScenaroAnalyticsConfig, publicationId: string) {
+    this.adapters = (config.adapters || []).map((name) => ADAPTERS[name]).filter(Boolean);
+    if (config.callback) {
+      this.adapters.push(config.callback);
+    }
+    this.consent = config.consent ?? 'granted';
+    this.publicationId = publicationId;
+  }
+
+  setConsent(granted: boolean): void {
+    this.consent = granted ? 'granted' : 'denied';
+    const queued = this.queue;
+    this.queue = [];
+    if (granted) {
+      queued.forEach((event) => this.send(event));
+    }
+  }
+
+  /** Widget event listener ('*') */
+  handleEvent(event: ScenaroAnyEvent): void {
+    switch (event.type) {
+      case 'open':
+        this.openedAt = Date.now();
+        this.track('scenaro_open', {});
+        break;
+      case 'ready':
+        this.track('scenaro_ready', {
+          ...(this.openedAt !== null && { time_to_ready_ms: Date.now() - this.openedAt })
+        });
+        break;
+      case 'end':
+        this.track('scenaro_end', {});
+        break;
+      case 'close':
+        this.openedAt = null;
+        this.pendingRequests.clear();
+        this.track('scenaro_close', {});
+        break;
+      case 'redirect':
+        this.track('scenaro_redirect', { url: event.data.url });
+        break;
+      case 'cartRequest':
+        this.pendingRequests.set(event.data.requestId, event.data);
+        break;
+      case 'cartResponse': {
+        const request = this.pendingRequests.get(event.data.requestId);
+        this.pendingRequests.delete(event.data.requestId);
+        // A failed batch may still have completed (and kept) some operations
+        if (request && event.data.data && (event.data.success || request.type === 'SCENARO_CART_BATCH_REQUEST')) {
+          this.trackCartAction(request, event.data.data, event.data.results);
+        }
+        if (event.data.data) {
+          this.lastCart = event.data.data;
+        }
+        break;
+      }
+      case 'cartChanged':
+        this.lastCart = event.data;
+        break;
+    }
+  }
+
+  private trackCartAction(request: CartRequest, cart: NormalizedCart, results?: CartOperationResult[]): void {
+    const previous = this.lastCart;
+
+    switch (request.type) {
+      case 'SCENARO_CART_ADD_REQUEST':
+        this.trackOperation({ op: 'add', data: request.data }, previous, cart);
+        break;
+      case 'SCENARO_CART_UPDATE_REQUEST':
+        this.trackOperation({ op: 'update', data: request.data }, previous, cart);
+        break;
+      case 'SCENARO_CART_REMOVE_REQUEST':
+        this.trackOperation({ op: 'remove', data: request.data }, previous, cart);
+        break;
+      case 'SCENARO_CART_BATCH_REQUEST':
+        // One event per operation that succeeded and was not rolled back
+        request.data.operations.forEach((operation, index) => {
+          const result = results?.[index];
+          if (result?.success && !result.rolledBack) {
+            this.trackOperation(operation, previous, cart);
+          }
+        });
+        break;
+      case 'SCENARO_CART_CLEAR_REQUEST':
+        if (previous?.items.length) {
+          this.trackItems('remove_from_cart', previous.items.map((item) => ({ item, qty: item.qty })), previous.currency);
+        }
+        break;
+    }
+  }
+
+  private trackOperation(operation: CartOperation, previous: NormalizedCart | null, cart: NormalizedCart): void {
+    const findPrevious = (itemId: string | number) => previous?.items.find((item) => item.itemId === String(itemId));
+
+    switch (operation.op) {
+      case 'add': {
+        const productId = String(operation.data.productId);
+        const item = cart.items.find((line) => line.variantId === productId || line.productId === productId);
+        const qty = operation.data.qty ?? 1;
+        if (item) {
+          this.trackItems('add_to_cart', [{ item, qty }], cart.currency);
+        } else {
+          this.track('add_to_cart', { currency: cart.currency, items: [{ item_id: productId, quantity: qty }] });
+        }
+        break;
+      }
+      case 'update': {
+        // Quantity change = add or remove of the difference
+        const before = findPrevious(operation.data.itemId);
+        const after = cart.items.find((line) => line.itemId === String(operation.data.itemId));
+        const delta = before ? operation.data.qty - before.qty : 0;
+        if (before && delta !== 0) {
+          this.trackItems(delta > 0 ? 'add_to_cart' : 'remove_from_cart', [{ item: after || before, qty: Math.abs(delta) }], cart.currency);
+        }
+        break;
+      }
+      case 'remove': {
+        const before = findPrevious(operation.data.itemId);
+        if (before) {
+          this.trackItems('remove_from_cart', [{ item: before, qty: before.qty }], cart.currency);
+        }
+        break;
+      }
+    }
+    // Removals without a previously listed cart have no product data and are not tracked
+  }
+
+  private trackItems(name: string, lines: Array<{ item: NormalizedCartItem; qty: number }>, currency: string | null): void {
+    const items = lines.map(({ item, qty }) => toItem(item, qty, currency));
+    const value = items.reduce((sum, item) => sum + (item.price ?? 0) * item.quantity, 0);
+    this.track(name, { currency, value: Math.round(value * 100) / 100, items });
+  }
+
+  private track(name: string, params: Record<string, any>): void {
+    this.send({ name, params: { publication_id: this.publicationId, ...params } });
+  }
+
+  private send(event: ScenaroAnalyticsEvent): void {
+    if (this.consent === 'pending') {
+      this.queue.push(event);
+      return;
+    }
+    if (this.consent === 'denied' || (typeof this.consent === 'function' && !this.consent())) {
+      return;
+    }
+    for (const adapter of this.adapters) {
+      try {
+        adapter(event);
+      } catch (error) {
+        console.error(`[Scenaro] Error sending analytics event ${event.name}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { toCartError } from '../errors';
+import { CartOperation, CartOperationResult, CartProgress, NormalizedCart } from '../types';
+
+// Shared by connectors implementing batchCart and by the engine's fallback.
+
+/** Run operations in order; after the first failure the remaining ones are reported as skipped. */
+export async function runCartOperations(
+  operations: CartOperation[],
+  run: (operation: CartOperation) => Promise<void>,
+  onProgress?: (progress: CartProgress) => void
+): Promise<CartOperationResult[]> {
+  const results: CartOperationResult[] = [];
+  let failed = false;
+  for (const operation of operations) {
+    if (failed) {
+      results.push({ op: operation.op, success: false, skipped: true });
+      continue;
+    }
+    try {
+      await run(operation);
+      results.push({ op: operation.op, success: true });
+    } catch (error) {
+      console.error(`[Scenaro] ❌ Batch ${operation.op} failed:`, error);
+      results.push({ op: operation.op, success: false, error: toCartError(error) });
+      failed = true;
+    }
+    onProgress?.({ done: results.length, total: operations.length });
+  }
+  return results;
+}
+
+/**
+ * Operations that bring `current` back to `snapshot` (lines matched by itemId): new lines are removed,
+ * changed quantities reset, and removed lines added again by product (variant) id. Lines with
+ * options may not be re-addable that way; the connector then reports the failure.
+ */
+export function restoreOperations(snapshot: NormalizedCart, current: NormalizedCart): CartOperation[] {
+  const before = new Map(snapshot.items.map((item) => [item.itemId, item]));
+  const after = new Map(current.items.map((item) => [item.itemId, item]));
+  const operations: CartOperation[] = [];
+
+  for (const item of current.items) {
+    const original = before.get(item.itemId);
+    if (!original) {
+      operations.push({ op: 'remove', data: { itemId: item.itemId } });
+    } else if (original.qty !== item.qty) {
+      operations.push({ op: 'update', data: { itemId: item.itemId, qty: original.qty } });
+    }
+  }
+  for (const item of snapshot.items) {
+    if (!after.has(item.itemId)) {
+      operations.push({ op: 'add', data: { productId: item.variantId || item.productId, qty: item.qty, ...(item.sku && { sku: item.sku }) } });
+    }
+  }
+  return operations;
+}
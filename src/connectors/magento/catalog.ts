@@ -0,0 +1,128 @@
+import { ConnectorError } from '../../errors';
+import { NormalizedProduct, ProductOption, ProductQuery, ProductVariant } from '../../types';
+import { GraphQLCartCRUD, toMinorUnits } from './graphql';
+
+// Catalog lookups use the public GraphQL products query on every storefront (Luma included):
+// prices follow the Store header and, with a customer token, the customer group.
+
+const PRODUCT_FIELDS = `
+  id
+  sku
+  name
+  url_key
+  url_suffix
+  stock_status
+  only_x_left_in_stock
+  small_image { url }
+  price_range {
+    minimum_price { final_price { value currency } regular_price { value currency } }
+  }
+`;
+
+const CONFIGURABLE_FIELDS = `
+  ... on ConfigurableProduct {
+    configurable_options { attribute_id attribute_code label values { value_index label } }
+    variants {
+      attributes { code value_index }
+      product { id sku stock_status price_range { minimum_price { final_price { value } } } }
+    }
+  }
+`;
+
+const PRODUCT_QUERY = `
+  query ScenaroProduct($filter: ProductAttributeFilterInput) {
+    products(filter: $filter, pageSize: 1) { items { ${PRODUCT_FIELDS} ${CONFIGURABLE_FIELDS} } }
+  }
+`;
+
+// Search results leave variants out (up to 50 products per page)
+const SEARCH_QUERY = `
+  query ScenaroSearch($search: String!, $pageSize: Int!) {
+    products(search: $search, pageSize: $pageSize) { items { ${PRODUCT_FIELDS} } }
+  }
+`;
+
+// GraphQL product -> NormalizedProduct (options are super_attribute selections, variants the child products)
+export function normalizeGraphQLProduct(product: any): NormalizedProduct {
+  const minimum = product.price_range?.minimum_price || {};
+  const price = toMinorUnits(minimum.final_price?.value);
+  const regularPrice = toMinorUnits(minimum.regular_price?.value);
+  const configurable: any[] = product.configurable_options || [];
+  const attributeIds = new Map(configurable.map((option) => [option.attribute_code, String(option.attribute_id)]));
+
+  const variants: ProductVariant[] = (product.variants || []).filter((variant: any) => variant?.product).map((variant: any) => ({
+    variantId: String(variant.product.id),
+    sku: variant.product.sku,
+    price: toMinorUnits(variant.product.price_range?.minimum_price?.final_price?.value),
+    inStock: variant.product.stock_status === 'IN_STOCK',
+    selection: Object.fromEntries((variant.attributes || []).map((attribute: any) => [
+      attributeIds.get(attribute.code) ?? attribute.code,
+      String(attribute.value_index)
+    ]))
+  }));
+  const options: ProductOption[] = configurable.map((option) => {
+    const id = String(option.attribute_id);
+    return {
+      field: 'super_attribute',
+      id,
+      code: option.attribute_code,
+      label: option.label,
+      values: (option.values || []).map((value: any) => ({
+        id: String(value.value_index),
+        label: String(value.label),
+        inStock: variants.some((variant) => variant.inStock && variant.selection[id] === String(value.value_index))
+      }))
+    };
+  });
+
+  return {
+    productId: String(product.id),
+    sku: product.sku,
+    handle: product.url_key || undefined,
+    name: product.name,
+    url: product.url_key ? `/${product.url_key}${product.url_suffix ?? '.html'}` : undefined,
+    imageUrl: product.small_image?.url,
+    currency: minimum.final_price?.currency || null,
+    price,
+    ...(regularPrice > price && { regularPrice }),
+    inStock: product.stock_status === 'IN_STOCK',
+    ...(product.only_x_left_in_stock != null && { stockQty: Number(product.only_x_left_in_stock) }),
+    ...(product.configurable_options && { options, variants }),
+    raw: product
+  };
+}
+
+export class GraphQLCatalog {
+  private graphql: GraphQLCartCRUD;
+
+  constructor(graphql: GraphQLCartCRUD) {
+    this.graphql = graphql;
+  }
+
+  // GraphQL filters products by sku or url key, not by entity id
+  async get({ sku, productId, handle }: ProductQuery): Promise<NormalizedProduct> {
+    let filter: Record<string, { eq: string }>;
+    if (sku) {
+      filter = { sku: { eq: sku } };
+    } else if (handle) {
+      filter = { url_key: { eq: handle.replace(/\.html$/, '') } };
+    } else if (productId !== undefined && !/^\d+$/.test(String(productId))) {
+      // Non-numeric product ids are SKUs (as in add requests)
+      filter = { sku: { eq: String(productId) } };
+    } else {
+      throw new ConnectorError('INVALID_REQUEST', 'Magento catalog lookups need a sku or handle (url key)', { productId });
+    }
+
+    const data = await this.graphql.request(PRODUCT_QUERY, { filter }, 'get product');
+    const product = data.products?.items?.[0];
+    if (!product) {
+      throw new ConnectorError('PRODUCT_NOT_FOUND', `Product not found: ${sku || handle || productId}`, { sku, productId, handle });
+    }
+    return normalizeGraphQLProduct(product);
+  }
+
+  async search(query: string, limit: number): Promise<NormalizedProduct[]> {
+    const data = await this.graphql.request(SEARCH_QUERY, { search: query, pageSize: limit }, 'search products');
+    return (data.products?.items || []).filter(Boolean).map(normalizeGraphQLProduct);
+  }
+}
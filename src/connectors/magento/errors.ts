@@ -0,0 +1,39 @@
+import { ConnectorError } from '../../errors';
+import { CartAddParams, CartErrorCode, MissingCartOption } from '../../types';
+
+// Magento storefront messages -> error codes (first match wins)
+export const MESSAGE_CODES: Array<[RegExp, CartErrorCode]> = [
+  [/coupon/i, 'COUPON_INVALID'],
+  [/out of stock|not available|isn't available|requested qty|not enough/i, 'OUT_OF_STOCK'],
+  [/fewest you may purchase|most you may purchase|quantities of|specify the quantity|qty|quantity/i, 'INVALID_QTY'],
+  [/doesn't exist|does not exist|not found|no such entity|requested product/i, 'PRODUCT_NOT_FOUND'],
+  [/form key|session/i, 'SESSION_EXPIRED']
+];
+
+// Map a failed storefront call (HTTP status + Magento message) to a ConnectorError
+export function toConnectorError(status: number, message: string, operation: string): ConnectorError {
+  const details = { status, operation };
+  if (status === 0) {
+    return new ConnectorError('NETWORK', `Failed to ${operation}: network error`, details);
+  }
+  const match = MESSAGE_CODES.find(([pattern]) => pattern.test(message));
+  if (match) {
+    return new ConnectorError(match[1], message, details);
+  }
+  if (status === 401 || status === 403) {
+    return new ConnectorError('SESSION_EXPIRED', `Failed to ${operation}: session expired`, details);
+  }
+  if (status === 404) {
+    return new ConnectorError('PRODUCT_NOT_FOUND', `Failed to ${operation}: not found`, details);
+  }
+  return new ConnectorError('UNKNOWN', `Failed to ${operation}: ${status} - ${message}`, details);
+}
+
+// Keep only the required selections the request did not provide
+export function missingFrom(required: MissingCartOption[], params: CartAddParams): MissingCartOption[] {
+  return required.filter((option) => {
+    if (option.field === 'links') return !params.links?.length;
+    const provided = params[option.field]?.[option.id];
+    return provided === undefined || provided === '' || (Array.isArray(provided) && provided.length === 0);
+  });
+}
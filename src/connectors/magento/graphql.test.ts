@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GraphQLCartCRUD } from './graphql';
+
+interface GraphQLCall {
+  query: string;
+  variables: Record<string, any>;
+  headers: Record<string, string>;
+}
+
+// /graphql double: the handler answers each operation with { data } or { errors }
+function graphql(handler: (call: GraphQLCall) => any) {
+  return vi.fn(async (_url: string, init: RequestInit = {}) => {
+    const { query, variables } = JSON.parse(String(init.body));
+    const body = handler({ query, variables, headers: init.headers as Record<string, string> });
+    return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  });
+}
+
+const cart = (id: string, quantity: number) => ({
+  id,
+  total_quantity: quantity,
+  items: quantity > 0 ? [{
+    uid: 'MTA=',
+    quantity,
+    product: { id: 1002, sku: 'MT07', name: 'Argus All-Weather Tank', url_key: 'argus-tank', url_suffix: '.html' },
+    prices: { price: { value: 22, currency: 'EUR' }, row_total: { value: 22 * quantity, currency: 'EUR' } }
+  }] : [],
+  applied_coupons: [],
+  prices: { subtotal_including_tax: { value: 22 * quantity, currency: 'EUR' }, grand_total: { value: 22 * quantity, currency: 'EUR' } }
+});
+
+describe('Magento GraphQL cart backend', () => {
+  afterEach(() => {
+    window.localStorage.clear();
+    vi.unstubAllGlobals();
+  });
+
+  it('adds by sku to the host-provided cart, with the store and customer headers', async () => {
+    const fetchMock = graphql(({ variables }) => ({
+      data: { addProductsToCart: { cart: cart(variables.cartId, variables.cartItems[0].quantity), user_errors: [] } }
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    const crud = new GraphQLCartCRUD({ storeCode: 'fr', cartId: () => 'masked-1', customerToken: () => 'token-1' });
+
+    const result = await crud.add({ productId: '1002', sku: 'MT07', qty: 2 });
+
+    expect(result.items).toEqual([expect.objectContaining({ itemId: 'MTA=', sku: 'MT07', qty: 2, unitPrice: 2200, linePrice: 4400 })]);
+    expect(result.currency).toBe('EUR');
+    expect(result.items[0].url).toBe('/argus-tank.html');
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init?.headers).toMatchObject({ Store: 'fr', Authorization: 'Bearer token-1' });
+    expect(JSON.parse(String(init?.body)).variables).toMatchObject({ cartId: 'masked-1', cartItems: [{ sku: 'MT07', quantity: 2 }] });
+  });
+
+  it('maps user errors and authorization errors', async () => {
+    vi.stubGlobal('fetch', graphql(({ query }) => (query.includes('addProductsToCart')
+      ? { data: { addProductsToCart: { cart: null, user_errors: [{ code: 'INSUFFICIENT_STOCK', message: 'Not enough items' }] } } }
+      : { errors: [{ message: 'The current user cannot perform operations on cart', extensions: { category: 'graphql-authorization' } }] })));
+    const crud = new GraphQLCartCRUD({ cartId: () => 'masked-1' });
+
+    await expect(crud.add({ productId: 'MT07' })).rejects.toMatchObject({ code: 'OUT_OF_STOCK' });
+    await expect(crud.list()).rejects.toMatchObject({ code: 'SESSION_EXPIRED' });
+  });
+
+  it('uses the session cart from the section cache for guests', async () => {
+    window.localStorage.setItem('mage-cache-storage', JSON.stringify({ cart: { cartId: 'guest-1' } }));
+    const fetchMock = graphql(({ query, variables }) => (query.includes('customerCart')
+      ? { errors: [{ message: 'The current customer isn\'t authorized.', extensions: { category: 'graphql-authorization' } }] }
+      : { data: { cart: cart(variables.cartId, 1) } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await new GraphQLCartCRUD().list();
+
+    expect((result.raw as any).id).toBe('guest-1');
+    expect(result.itemCount).toBe(1);
+  });
+
+  it('needs a sku to add numeric product ids', async () => {
+    vi.stubGlobal('fetch', graphql(() => ({ data: {} })));
+    await expect(new GraphQLCartCRUD({ cartId: () => 'masked-1' }).add({ productId: '1002' })).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,466 @@
+import { ConnectorError } from '../../errors';
+import { CartAddParams, CartBatchResult, CartErrorCode, CartOperation, CartProgress, MissingCartOption, NormalizedCart, NormalizedCartItem } from '../../types';
+import { runCartOperations } from '../batch';
+import { missingFrom, toConnectorError } from './errors';
+
+// GraphQL cart backend: Hyvä and headless storefronts (PWA Studio, custom) have no requirejs,
+// customerData or form_key, but every Magento 2.4 store exposes the cart mutations on /graphql.
+
+export interface MagentoGraphQLOptions {
+  /** GraphQL endpoint (default: /graphql on the current origin) */
+  graphqlUrl?: string;
+  /** Store view code, sent as the Store header */
+  storeCode?: string;
+  /** Masked id of the shopper's cart, when the storefront keeps it client side */
+  cartId?: () => string | null | Promise<string | null>;
+  /** Customer token (Authorization: Bearer) for logged-in shoppers */
+  customerToken?: () => string | null | Promise<string | null>;
+}
+
+// Private content cache shared by Luma and Hyvä ({"cart": {...}, ...})
+const SECTIONS_STORAGE_KEY = 'mage-cache-storage';
+
+// PWA Studio (Venia) persists the cart id and token as {"value":"\"...\""} in localStorage
+const VENIA_STORAGE_PREFIX = 'M2_VENIA_BROWSER_PERSISTENCE__';
+
+export function readVeniaStorage(key: 'cartId' | 'signin_token'): string | null {
+  try {
+    const raw = window.localStorage?.getItem(`${VENIA_STORAGE_PREFIX}${key}`);
+    if (!raw) return null;
+    const value = JSON.parse(JSON.parse(raw).value);
+    return typeof value === 'string' && value ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Masked quote id carried by the cart section (Hyvä adds it as cartId)
+function sectionCartId(cart: any): string | null {
+  const id = cart?.cartId || cart?.masked_quote_id || cart?.maskedQuoteId;
+  return typeof id === 'string' && id ? id : null;
+}
+
+// addProductsToCart user_errors codes -> error codes
+export const USER_ERROR_CODES: Record<string, CartErrorCode> = {
+  PRODUCT_NOT_FOUND: 'PRODUCT_NOT_FOUND',
+  NOT_SALABLE: 'OUT_OF_STOCK',
+  INSUFFICIENT_STOCK: 'OUT_OF_STOCK',
+  COULD_NOT_FIND_CART_ITEM: 'PRODUCT_NOT_FOUND',
+  REQUIRED_PARAMETER_MISSING: 'MISSING_OPTIONS'
+};
+
+const CART_FIELDS = `
+  id
+  total_quantity
+  items {
+    uid
+    quantity
+    product { id sku name url_key url_suffix small_image { url } }
+    prices { price { value currency } row_total { value currency } }
+    ... on ConfigurableCartItem {
+      configured_variant { id sku }
+      configurable_options { option_label value_label }
+    }
+    ... on SimpleCartItem { customizable_options { label values { label value } } }
+    ... on VirtualCartItem { customizable_options { label values { label value } } }
+    ... on BundleCartItem { bundle_options { label values { label quantity } } }
+  }
+  applied_coupons { code }
+  prices {
+    subtotal_including_tax { value currency }
+    grand_total { value currency }
+    applied_taxes { amount { value } }
+    discounts { label amount { value } }
+  }
+  shipping_addresses { selected_shipping_method { amount { value } } }
+`;
+
+const REQUIRED_OPTIONS_QUERY = `
+  query ScenaroRequiredOptions($sku: String!) {
+    products(filter: { sku: { eq: $sku } }) {
+      items {
+        ... on ConfigurableProduct { configurable_options { attribute_id attribute_code label } }
+        ... on CustomizableProductInterface { options { option_id title required } }
+        ... on BundleProduct { items { option_id title required } }
+        ... on DownloadableProduct { links_purchased_separately links_title }
+      }
+    }
+  }
+`;
+
+// Decimal amount ("45.0000", 45, "$45.00") -> integer minor units; shared by both backends so
+// a product gets the same price whichever one answers
+export function toMinorUnits(value: any): number {
+  if (value === null || value === undefined || value === '') return 0;
+  const amount = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(amount) ? Math.round(amount * 100) : 0;
+}
+
+function sum(values: Array<{ amount?: { value?: number } }> | null | undefined): number {
+  return (values || []).reduce((total, entry) => total + toMinorUnits(entry?.amount?.value), 0);
+}
+
+// GraphQL cart -> NormalizedCart (itemId is the cart item uid)
+export function normalizeGraphQLCart(cart: any): NormalizedCart {
+  const items: NormalizedCartItem[] = (cart?.items || []).filter(Boolean).map((item: any) => {
+    const qty = Number(item.quantity) || 0;
+    const options = [
+      ...(item.configurable_options || []).map((option: any) => ({ label: option.option_label, value: option.value_label })),
+      ...(item.customizable_options || []).map((option: any) => ({
+        label: option.label,
+        value: (option.values || []).map((value: any) => value.label || value.value).join(', ')
+      })),
+      ...(item.bundle_options || []).map((option: any) => ({
+        label: option.label,
+        value: (option.values || []).map((value: any) => `${value.quantity} x ${value.label}`).join(', ')
+      }))
+    ];
+    const product = item.product || {};
+    return {
+      itemId: String(item.uid),
+      productId: String(product.id),
+      ...(item.configured_variant?.id && { variantId: String(item.configured_variant.id) }),
+      sku: item.configured_variant?.sku || product.sku,
+      name: product.name,
+      qty,
+      unitPrice: toMinorUnits(item.prices?.price?.value),
+      linePrice: toMinorUnits(item.prices?.row_total?.value),
+      imageUrl: product.small_image?.url,
+      url: product.url_key ? `/${product.url_key}${product.url_suffix ?? '.html'}` : undefined,
+      options: options.map((option) => ({ label: String(option.label), value: String(option.value) }))
+    };
+  });
+  const prices = cart?.prices || {};
+  const shipping = (cart?.shipping_addresses || []).reduce(
+    (total: number, address: any) => total + toMinorUnits(address?.selected_shipping_method?.amount?.value),
+    0
+  );
+
+  return {
+    items,
+    itemCount: Number(cart?.total_quantity) || items.reduce((total, item) => total + item.qty, 0),
+    currency: prices.grand_total?.currency || cart?.items?.[0]?.prices?.price?.currency || null,
+    totals: {
+      subtotal: toMinorUnits(prices.subtotal_including_tax?.value),
+      discount: sum(prices.discounts),
+      tax: sum(prices.applied_taxes),
+      shipping,
+      grandTotal: toMinorUnits(prices.grand_total?.value)
+    },
+    coupons: (cart?.applied_coupons || []).map((coupon: any) => String(coupon.code)),
+    discounts: (prices.discounts || []).map((discount: any) => ({
+      label: String(discount.label),
+      amount: Math.abs(toMinorUnits(discount.amount?.value))
+    })),
+    raw: cart
+  };
+}
+
+// Option uids: base64 of "configurable/<attribute>/<value>", "custom-option/<option>/<value>", ...
+function uid(...parts: Array<string | number>): string {
+  return btoa(parts.join('/'));
+}
+
+// Form-style selections (same request shape as the storefront backend) -> selected_options / entered_options
+export function cartItemOptions(params: CartAddParams): { selected_options: string[]; entered_options: Array<{ uid: string; value: string }> } {
+  const selected: string[] = [];
+  const entered: Array<{ uid: string; value: string }> = [];
+
+  for (const [attributeId, valueId] of Object.entries(params.super_attribute || {})) {
+    selected.push(uid('configurable', attributeId, valueId));
+  }
+  for (const [optionId, value] of Object.entries(params.options || {})) {
+    const values = Array.isArray(value) ? value : [value];
+    // Numeric values are option value ids; anything else is free text (field, area, date)
+    if (values.every((entry) => /^\d+$/.test(String(entry)))) {
+      values.forEach((valueId) => selected.push(uid('custom-option', optionId, valueId)));
+    } else {
+      entered.push({ uid: uid('custom-option', optionId), value: String(value) });
+    }
+  }
+  for (const [optionId, value] of Object.entries(params.bundle_option || {})) {
+    const qty = params.bundle_option_qty?.[optionId] ?? 1;
+    (Array.isArray(value) ? value : [value]).forEach((selectionId) => selected.push(uid('bundle', optionId, selectionId, qty)));
+  }
+  for (const linkId of params.links || []) {
+    selected.push(uid('downloadable', linkId));
+  }
+  return { selected_options: selected, entered_options: entered };
+}
+
+// Numeric product ids cannot be looked up through the public GraphQL schema
+export function skuOf(params: CartAddParams): string {
+  const sku = params.sku || (/^\d+$/.test(String(params.productId)) ? null : String(params.productId));
+  if (!sku) {
+    throw new ConnectorError('INVALID_REQUEST', 'The Magento GraphQL backend needs the product sku');
+  }
+  return sku;
+}
+
+// Required selections declared by the product (as MissingCartOption, like the product page parser)
+function requiredOptions(product: any): MissingCartOption[] {
+  if (!product) return [];
+  const required: MissingCartOption[] = (product.configurable_options || []).map((option: any) => ({
+    field: 'super_attribute',
+    id: String(option.attribute_id),
+    code: option.attribute_code,
+    label: option.label
+  }));
+  for (const option of product.options || []) {
+    if (option.required) required.push({ field: 'options', id: String(option.option_id), label: option.title });
+  }
+  for (const option of product.items || []) {
+    if (option.required) required.push({ field: 'bundle_option', id: String(option.option_id), label: option.title });
+  }
+  if (product.links_purchased_separately) {
+    required.push({ field: 'links', id: 'links', label: product.links_title || 'Links' });
+  }
+  return required;
+}
+
+export class GraphQLCartCRUD {
+  private options: MagentoGraphQLOptions;
+  /** Customer cart id (host-provided and session ids are read on every call) */
+  private cartId: string | null = null;
+
+  constructor(options: MagentoGraphQLOptions = {}) {
+    this.options = options;
+  }
+
+  // Host-provided or PWA Studio customer token; null for guests
+  async customerToken(): Promise<string | null> {
+    return (await this.options.customerToken?.()) || readVeniaStorage('signin_token');
+  }
+
+  async request<T = any>(query: string, variables: Record<string, any>, operation: string): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const token = await this.customerToken();
+    if (token) headers.Authorization = `Bearer ${token}`;
+    if (this.options.storeCode) headers.Store = this.options.storeCode;
+
+    let response: Response;
+    try {
+      response = await fetch(this.options.graphqlUrl || '/graphql', {
+        method: 'POST',
+        // Same-origin session cookies identify logged-in Luma/Hyvä customers
+        credentials: 'same-origin',
+        headers,
+        body: JSON.stringify({ query, variables })
+      });
+    } catch {
+      throw toConnectorError(0, '', operation);
+    }
+
+    const body = await response.json().catch(() => null);
+    const error = body?.errors?.[0];
+    if (error) {
+      const details = { status: response.status, operation, category: error.extensions?.category };
+      if (error.extensions?.category === 'graphql-authorization') {
+        throw new ConnectorError('SESSION_EXPIRED', error.message, details);
+      }
+      const mapped = toConnectorError(response.status, error.message, operation);
+      throw new ConnectorError(mapped.code, mapped.message, { ...mapped.details, ...details });
+    }
+    if (!response.ok || !body?.data) {
+      throw toConnectorError(response.status, `HTTP ${response.status}`, operation);
+    }
+    return body.data;
+  }
+
+  // Host-provided id, PWA Studio id, customer cart, or the session's quote from the cart section.
+  // Never a new cart: the assistant must fill the cart the shopper checks out with.
+  async resolveCartId(fresh = false): Promise<string> {
+    const provided = (await this.options.cartId?.()) || readVeniaStorage('cartId');
+    if (provided) return provided;
+    if (this.cartId) return this.cartId;
+
+    try {
+      const data = await this.request('query ScenaroCustomerCart { customerCart { id } }', {}, 'load cart');
+      this.cartId = data.customerCart.id;
+      return this.cartId as string;
+    } catch (error) {
+      // Guests (and session-only customers) are not authorized to read customerCart
+      if (!(error instanceof ConnectorError) || error.code !== 'SESSION_EXPIRED') throw error;
+    }
+
+    const sessionCartId = await this.sessionCartId(fresh);
+    if (sessionCartId) return sessionCartId;
+    throw new ConnectorError('CONNECTOR_UNAVAILABLE', 'No Magento cart id: pass the cartId option or expose it in the cart section');
+  }
+
+  // Cart section from the private content cache, else (or when fresh) from /customer/section/load
+  async sessionCartId(fresh: boolean): Promise<string | null> {
+    if (!fresh) {
+      try {
+        const cached = sectionCartId(JSON.parse(window.localStorage?.getItem(SECTIONS_STORAGE_KEY) || '{}').cart);
+        if (cached) return cached;
+      } catch {
+        // Unreadable cache: load the section
+      }
+    }
+    try {
+      const response = await fetch('/customer/section/load/?sections=cart&force_new_section_timestamp=true', {
+        credentials: 'same-origin',
+        headers: { 'X-Requested-With': 'XMLHttpRequest' }
+      });
+      return response.ok ? sectionCartId((await response.json())?.cart) : null;
+    } catch {
+      // Headless storefronts on another origin have no section endpoint
+      return null;
+    }
+  }
+
+  // Run a cart operation; a vanished cart (ordered, expired) is resolved again once
+  async withCart<T>(operation: (cartId: string) => Promise<T>): Promise<T> {
+    const cartId = await this.resolveCartId();
+    try {
+      return await operation(cartId);
+    } catch (error) {
+      const lostCart = error instanceof ConnectorError &&
+        error.details?.category === 'graphql-no-such-entity' &&
+        /cart/i.test(error.message);
+      if (!lostCart) throw error;
+      if (cartId === this.cartId) this.cartId = null;
+      const current = await this.resolveCartId(true);
+      if (current === cartId) throw error;
+      return operation(current);
+    }
+  }
+
+  // LIST
+  async list(): Promise<NormalizedCart> {
+    return this.withCart(async (cartId) => {
+      const data = await this.request(`query ScenaroCart($cartId: String!) { cart(cart_id: $cartId) { ${CART_FIELDS} } }`, { cartId }, 'load cart');
+      return normalizeGraphQLCart(data.cart);
+    });
+  }
+
+  // ADD (by SKU; selections are converted to option uids)
+  async add(params: CartAddParams): Promise<NormalizedCart> {
+    const { qty = 1 } = params;
+    const sku = skuOf(params);
+
+    const cart = await this.withCart(async (cartId) => {
+      const data = await this.request(`
+        mutation ScenaroAddToCart($cartId: String!, $cartItems: [CartItemInput!]!) {
+          addProductsToCart(cartId: $cartId, cartItems: $cartItems) {
+            cart { ${CART_FIELDS} }
+            user_errors { code message }
+          }
+        }
+      `, { cartId, cartItems: [{ sku, quantity: qty, ...cartItemOptions(params) }] }, 'add product');
+      const userError = data.addProductsToCart.user_errors?.[0];
+      if (userError) {
+        throw await this.addFailure(sku, params, userError);
+      }
+      return data.addProductsToCart.cart;
+    });
+    console.log(`[Scenaro] ✅ Added product ${sku} (qty ${qty})`);
+    return normalizeGraphQLCart(cart);
+  }
+
+  // Build the error for a refused add: name missing selections when the product declares them
+  async addFailure(sku: string, params: CartAddParams, userError: { code: string; message: string }): Promise<ConnectorError> {
+    const code = USER_ERROR_CODES[userError.code];
+    if (code === 'MISSING_OPTIONS') {
+      try {
+        const data = await this.request(REQUIRED_OPTIONS_QUERY, { sku }, 'read product options');
+        const missing = missingFrom(requiredOptions(data.products?.items?.[0]), params);
+        if (missing.length > 0) {
+          const labels = missing.map((option) => option.label).join(', ');
+          return new ConnectorError('MISSING_OPTIONS', `Missing required options: ${labels}`, { missingOptions: missing });
+        }
+      } catch (error) {
+        console.warn('[Scenaro] Could not read product options:', error);
+      }
+    }
+    const details = { operation: 'add product', userErrorCode: userError.code };
+    if (code) {
+      return new ConnectorError(code, userError.message, details);
+    }
+    const mapped = toConnectorError(200, userError.message, 'add product');
+    return new ConnectorError(mapped.code, mapped.message, details);
+  }
+
+  // UPDATE qty (itemId = cart item uid)
+  async updateQty({ itemId, qty }: { itemId: string | number; qty: number }): Promise<NormalizedCart> {
+    const cart = await this.withCart(async (cartId) => {
+      const data = await this.request(`
+        mutation ScenaroUpdateCart($input: UpdateCartItemsInput!) {
+          updateCartItems(input: $input) { cart { ${CART_FIELDS} } }
+        }
+      `, { input: { cart_id: cartId, cart_items: [{ cart_item_uid: String(itemId), quantity: qty }] } }, 'update item');
+      return data.updateCartItems.cart;
+    });
+    console.log(`[Scenaro] ✅ Updated item ${itemId} qty -> ${qty}`);
+    return normalizeGraphQLCart(cart);
+  }
+
+  // DELETE item
+  async remove({ itemId }: { itemId: string | number }): Promise<NormalizedCart> {
+    const cart = await this.withCart(async (cartId) => {
+      const data = await this.request(`
+        mutation ScenaroRemoveItem($input: RemoveItemFromCartInput!) {
+          removeItemFromCart(input: $input) { cart { ${CART_FIELDS} } }
+        }
+      `, { input: { cart_id: cartId, cart_item_uid: String(itemId) } }, 'remove item');
+      return data.removeItemFromCart.cart;
+    });
+    console.log(`[Scenaro] ✅ Removed item ${itemId}`);
+    return normalizeGraphQLCart(cart);
+  }
+
+  // COUPON (a refused code is a GraphQL error mentioning the coupon -> COUPON_INVALID)
+  async applyCoupon(code: string): Promise<NormalizedCart> {
+    const cart = await this.withCart(async (cartId) => {
+      const data = await this.request(`
+        mutation ScenaroApplyCoupon($input: ApplyCouponToCartInput!) {
+          applyCouponToCart(input: $input) { cart { ${CART_FIELDS} } }
+        }
+      `, { input: { cart_id: cartId, coupon_code: code } }, 'apply coupon');
+      return data.applyCouponToCart.cart;
+    });
+    console.log(`[Scenaro] ✅ Applied coupon ${code}`);
+    return normalizeGraphQLCart(cart);
+  }
+
+  async removeCoupon(): Promise<NormalizedCart> {
+    const cart = await this.withCart(async (cartId) => {
+      const data = await this.request(`
+        mutation ScenaroRemoveCoupon($input: RemoveCouponFromCartInput!) {
+          removeCouponFromCart(input: $input) { cart { ${CART_FIELDS} } }
+        }
+      `, { input: { cart_id: cartId } }, 'remove coupon');
+      return data.removeCouponFromCart.cart;
+    });
+    console.log('[Scenaro] ✅ Coupon removed');
+    return normalizeGraphQLCart(cart);
+  }
+
+  // BATCH: every mutation returns the cart, so the last one is the batch result
+  async batch(operations: CartOperation[], onProgress?: (progress: CartProgress) => void): Promise<CartBatchResult> {
+    let cart: NormalizedCart | null = null;
+    const results = await runCartOperations(operations, async (operation) => {
+      if (operation.op === 'add') {
+        cart = await this.add(operation.data);
+      } else if (operation.op === 'update') {
+        cart = await this.updateQty(operation.data);
+      } else {
+        cart = await this.remove(operation.data);
+      }
+    }, onProgress);
+    return { cart: cart ?? await this.list(), results };
+  }
+
+  // CLEAR cart, item by item (clearCart mutation only exists from Magento 2.4.7)
+  async clear(onProgress?: (progress: CartProgress) => void): Promise<NormalizedCart> {
+    let cart = await this.list();
+    const items = [...cart.items];
+    for (let i = 0; i < items.length; i++) {
+      cart = await this.remove({ itemId: items[i].itemId });
+      onProgress?.({ done: i + 1, total: items.length });
+    }
+    console.log('[Scenaro] 🧹 Cart cleared');
+    return cart;
+  }
+}
@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMagentoConnector } from './index';
+
+// jqXHR double: done/fail callbacks run asynchronously, like jQuery's
+function jqXHR(ok: boolean, value: any) {
+  const xhr = {
+    done(callback: (response: any) => void) {
+      if (ok) setTimeout(() => callback(value));
+      return xhr;
+    },
+    fail(callback: (xhr: any) => void) {
+      if (!ok) setTimeout(() => callback(value));
+      return xhr;
+    }
+  };
+  return xhr;
+}
+
+// Luma storefront double: cart controllers behind jQuery.ajax, sections behind customerData
+function luma() {
+  const items = new Map<string, number>();
+  const cookies: Record<string, string> = { form_key: 'fk-1' };
+  let section: any = { items: [], summary_count: 0 };
+
+  const ajax = vi.fn((settings: any) => {
+    if (settings.type === 'GET') {
+      return jqXHR(true, '<html><body>Product page</body></html>');
+    }
+    if (settings.data?.form_key !== 'fk-1') {
+      return jqXHR(false, { status: 400, responseText: 'Invalid Form Key. Please refresh the page.' });
+    }
+    if (settings.url === '/checkout/cart/add') {
+      if (settings.data.product === '404') {
+        cookies['mage-messages'] = encodeURIComponent(JSON.stringify([{ type: 'error', text: 'The requested qty is not available' }]));
+        return jqXHR(true, { backUrl: 'https://shop.test/argus-tank.html' });
+      }
+      items.set(settings.data.product, (items.get(settings.data.product) ?? 0) + Number(settings.data.qty));
+    } else if (settings.url.startsWith('/checkout/cart/delete/id/')) {
+      items.delete(settings.url.split('/')[5]);
+    }
+    return jqXHR(true, {});
+  });
+  const $ = { ajax, mage: { cookies: { get: (name: string) => cookies[name] ?? null } } };
+
+  const customerData = {
+    get: vi.fn(() => Object.assign(() => section, { subscribe: vi.fn() })),
+    reload: vi.fn(async () => {
+      section = {
+        items: [...items].map(([id, qty]) => ({
+          item_id: id,
+          product_id: id,
+          product_sku: `SKU-${id}`,
+          product_name: `Product ${id}`,
+          qty,
+          product_price_value: { incl_tax: '45.0000', excl_tax: '37.5000' }
+        })),
+        summary_count: [...items.values()].reduce((sum, qty) => sum + qty, 0),
+        subtotalAmount: '0'
+      };
+    })
+  };
+
+  const requirejs = vi.fn((_deps: string[], callback: (...modules: any[]) => void) => callback($, customerData));
+  return { ajax, customerData, requirejs };
+}
+
+describe('Magento storefront cart backend', () => {
+  let store: ReturnType<typeof luma>;
+
+  beforeEach(() => {
+    store = luma();
+    vi.stubGlobal('requirejs', store.requirejs);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts to the cart controllers and reads the reloaded cart section', async () => {
+    const connector = createMagentoConnector();
+
+    const added = await connector.addToCart!({ productId: '7', qty: 2 });
+    expect(added.items).toEqual([expect.objectContaining({ itemId: '7', sku: 'SKU-7', qty: 2, unitPrice: 4500, linePrice: 9000 })]);
+    expect(store.ajax).toHaveBeenCalledWith(expect.objectContaining({
+      url: '/checkout/cart/add',
+      data: { product: '7', qty: '2', form_key: 'fk-1' }
+    }));
+
+    const removed = await connector.removeCart!({ itemId: '7' });
+    expect(removed.items).toEqual([]);
+    expect(store.customerData.reload).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads the refusal from the mage-messages cookie when Magento redirects to the product', async () => {
+    await expect(createMagentoConnector().addToCart!({ productId: '404' })).rejects.toMatchObject({ code: 'OUT_OF_STOCK' });
+  });
+
+  it('reloads the cart section once per batch', async () => {
+    const batch = await createMagentoConnector().batchCart!([
+      { op: 'add', data: { productId: '7' } },
+      { op: 'add', data: { productId: '8' } }
+    ]);
+
+    expect(batch.results.map((result) => result.success)).toEqual([true, true]);
+    expect(batch.cart.itemCount).toBe(2);
+    expect(store.customerData.reload).toHaveBeenCalledTimes(1);
+  });
+
+  it('is unavailable off Luma pages', async () => {
+    vi.stubGlobal('requirejs', undefined);
+    await expect(createMagentoConnector({ backend: 'storefront' }).listCart!()).rejects.toMatchObject({ code: 'CONNECTOR_UNAVAILABLE' });
+  });
+});
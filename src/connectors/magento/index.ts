@@ -1,4 +1,10 @@
-import { Connector } from '../../types';
+import { ConnectorError } from '../../errors';
+import { CartAddParams, CartBatchResult, CartOperation, CartOperationResult, CartProgress, Connector, MissingCartOption, NormalizedCart, NormalizedCartItem, NormalizedProduct, NormalizedWishlist, NormalizedWishlistItem, ProductQuery } from '../../types';
+import { runCartOperations } from '../batch';
+import { GraphQLCatalog } from './catalog';
+import { missingFrom, toConnectorError } from './errors';
+import { GraphQLCartCRUD, MagentoGraphQLOptions, toMinorUnits } from './graphql';
+import { GraphQLWishlist } from './wishlist';
 
 // jQuery interface for Magento AMD loading
 interface MagentoJQuery {
@@ -15,15 +21,207 @@ declare global {
     $: any; // jQuery (global fallback)
     requirejs: any;
     FORM_KEY?: string;
+    checkoutConfig?: any;
+    hyva?: any;
   }
 }
 
+export type MagentoStorefront = 'luma' | 'hyva' | 'headless';
+
+// storefront: controller routes + customerData (Luma); graphql: GraphQL cart mutations
+export type MagentoBackend = 'storefront' | 'graphql';
+
+export interface MagentoConnectorOptions extends MagentoGraphQLOptions {
+  /** Cart API to use (default: storefront on Luma, graphql on Hyvä and headless storefronts) */
+  backend?: MagentoBackend;
+}
+
+// Luma loads requirejs + customerData, Hyvä defines window.hyva, anything else is headless
+export function detectMagentoStorefront(): MagentoStorefront {
+  if (typeof window.requirejs !== 'undefined') return 'luma';
+  if (window.hyva) return 'hyva';
+  return 'headless';
+}
+
+// Ask Hyvä to reload its customer sections (minicart) after a GraphQL change; ignored elsewhere
+function syncStorefront(): void {
+  window.dispatchEvent(new CustomEvent('reload-customer-section-data'));
+}
+
+// customerData does not carry the currency; read it from checkout config or product meta
+function detectCurrency(): string | null {
+  const fromCheckout = window.checkoutConfig?.quoteData?.quote_currency_code;
+  if (fromCheckout) return fromCheckout;
+  const meta = document.querySelector('meta[property="product:price:currency"]');
+  return meta?.getAttribute('content') || null;
+}
+
+// customerData cart section -> NormalizedCart
+function normalizeCart(cart: any): NormalizedCart {
+  const items: NormalizedCartItem[] = (cart?.items || []).map((item: any) => {
+    // product_price_value is an object when the store displays prices incl. and excl. tax
+    const priceValue = item.product_price_value;
+    const unitPrice = toMinorUnits(typeof priceValue === 'object' && priceValue !== null ? priceValue.incl_tax : priceValue);
+    const qty = Number(item.qty) || 0;
+    return {
+      itemId: String(item.item_id),
+      productId: String(item.product_id),
+      sku: item.product_sku,
+      name: item.product_name,
+      qty,
+      unitPrice,
+      linePrice: unitPrice * qty,
+      imageUrl: item.product_image?.src,
+      url: item.product_url,
+      options: (item.options || []).map((option: any) => ({
+        label: String(option.label),
+        value: String(option.value)
+      }))
+    };
+  });
+  const subtotal = cart?.subtotalAmount !== undefined
+    ? toMinorUnits(cart.subtotalAmount)
+    : items.reduce((sum, item) => sum + item.linePrice, 0);
+
+  return {
+    items,
+    itemCount: Number(cart?.summary_count) || items.reduce((sum, item) => sum + item.qty, 0),
+    currency: detectCurrency(),
+    // customerData only exposes the subtotal; totals are computed at checkout
+    totals: { subtotal, grandTotal: subtotal },
+    raw: cart
+  };
+}
+
+// Cart page HTML embeds `window.checkoutConfig = {...};` (quote totals, coupon), which customerData lacks
+function checkoutConfigFrom(html: string): any | null {
+  const marker = html.indexOf('window.checkoutConfig');
+  const start = marker === -1 ? -1 : html.indexOf('{', marker);
+  if (start === -1) return null;
+  // The JSON ends at one of the following "};" (tried in order, a bounded number of times)
+  let end = html.indexOf('};', start);
+  for (let attempt = 0; end !== -1 && attempt < 50; attempt++) {
+    try {
+      return JSON.parse(html.slice(start, end + 1));
+    } catch {
+      end = html.indexOf('};', end + 2);
+    }
+  }
+  return null;
+}
+
+// Add checkoutConfig totalsData (discounts, tax, shipping, grand total incl. tax, coupon) to a cart
+function withTotals(cart: NormalizedCart, totals: any): NormalizedCart {
+  if (!totals) return cart;
+  const segment = (code: string) => (totals.total_segments || []).find((entry: any) => entry.code === code);
+  const discount = Math.abs(toMinorUnits(totals.discount_amount));
+  const coupon = totals.coupon_code || null;
+  return {
+    ...cart,
+    currency: totals.quote_currency_code || cart.currency,
+    totals: {
+      subtotal: cart.totals.subtotal,
+      discount,
+      tax: toMinorUnits(totals.tax_amount),
+      shipping: toMinorUnits(totals.shipping_incl_tax ?? totals.shipping_amount),
+      // totalsData.grand_total excludes tax; the grand_total segment does not
+      grandTotal: toMinorUnits(segment('grand_total')?.value ?? totals.grand_total)
+    },
+    coupons: coupon ? [coupon] : [],
+    discounts: discount > 0
+      ? [{ label: segment('discount')?.title || 'Discount', amount: discount, ...(coupon && { code: coupon }) }]
+      : []
+  };
+}
+
+// Collect configurable attributes from spConfig / swatch jsonConfig found in x-magento-init JSON
+function findConfigurableAttributes(node: any, found: Map<string, MissingCartOption>): void {
+  if (!node || typeof node !== 'object') return;
+  for (const [key, value] of Object.entries<any>(node)) {
+    if ((key === 'spConfig' || key === 'jsonConfig') && value?.attributes) {
+      for (const attribute of Object.values<any>(value.attributes)) {
+        found.set(String(attribute.id), {
+          field: 'super_attribute',
+          id: String(attribute.id),
+          code: attribute.code,
+          label: attribute.label
+        });
+      }
+    } else {
+      findConfigurableAttributes(value, found);
+    }
+  }
+}
+
+// Required selections declared on a product page (configurable attributes, custom/bundle options, downloadable links)
+function parseRequiredOptions(html: string): MissingCartOption[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const attributes = new Map<string, MissingCartOption>();
+  doc.querySelectorAll('script[type="text/x-magento-init"]').forEach((script) => {
+    try {
+      findConfigurableAttributes(JSON.parse(script.textContent || '{}'), attributes);
+    } catch {
+      // Not JSON we can read; ignore
+    }
+  });
+
+  const required: MissingCartOption[] = [...attributes.values()];
+  doc.querySelectorAll('#product_addtocart_form .field.required').forEach((field) => {
+    const input = field.querySelector('[name^="options["], [name^="bundle_option["], [name^="links"]');
+    const name = input?.getAttribute('name') || '';
+    const label = field.querySelector('label')?.textContent?.trim() || name;
+    const match = name.match(/^(options|bundle_option)\[(\d+)\]/);
+    if (match) {
+      required.push({ field: match[1] as 'options' | 'bundle_option', id: match[2], label });
+    } else if (name.startsWith('links')) {
+      required.push({ field: 'links', id: 'links', label });
+    }
+  });
+  return required;
+}
+
+// Items in the wishlist section (counter is "5 items", null when empty)
+function wishlistCount(wishlist: any): number {
+  return parseInt(wishlist?.counter, 10) || (wishlist?.items || []).length;
+}
+
+// customerData wishlist section -> NormalizedWishlist. Magento puts only the 3 most recent items
+// in the section; counter ("5 items") gives the total. Prices come from the price box HTML.
+function normalizeWishlist(wishlist: any): NormalizedWishlist {
+  const items: NormalizedWishlistItem[] = (wishlist?.items || []).map((item: any) => {
+    let itemId = '';
+    try {
+      itemId = String(JSON.parse(item.delete_item_params).data.item);
+    } catch {
+      console.warn('[Scenaro] Wishlist item without delete params:', item);
+    }
+    const amount = /data-price-amount="([\d.]+)"/.exec(item.product_price || '')?.[1];
+    return {
+      itemId,
+      productId: String(item.product_id),
+      sku: item.product_sku || undefined,
+      name: item.product_name,
+      ...(amount !== undefined && { price: toMinorUnits(amount) }),
+      imageUrl: item.image?.src,
+      url: item.product_url,
+      canMoveToCart: !!item.product_is_saleable_and_visible && !item.product_has_required_options
+    };
+  });
+
+  return {
+    items,
+    itemCount: wishlistCount(wishlist),
+    currency: detectCurrency(),
+    raw: wishlist
+  };
+}
+
 class CartCRUD {
   // Load Magento dependencies via AMD
   loadMagentoDeps(): Promise<{ $: MagentoJQuery; customerData: any }> {
     return new Promise((resolve, reject) => {
       if (typeof window.requirejs === 'undefined') {
-        reject(new Error('requirejs not available - not on Magento page'));
+        reject(new ConnectorError('CONNECTOR_UNAVAILABLE', 'requirejs not available - not on Magento page'));
         return;
       }
 
@@ -33,7 +231,7 @@ class CartCRUD {
       ], function ($: MagentoJQuery, customerData: any) {
         resolve({ $, customerData });
       }, function (error: any) {
-        reject(new Error(`Failed to load Magento dependencies: ${error}`));
+        reject(new ConnectorError('CONNECTOR_UNAVAILABLE', `Failed to load Magento dependencies: ${error}`));
       });
     });
   }
@@ -53,7 +251,7 @@ class CartCRUD {
   // Reload minicart + cache customer-data
   async reload(customerData: any): Promise<any> {
     try {
-      customerData.reload(['cart'], true);
+      await customerData.reload(['cart'], true);
       return customerData.get('cart')();
     } catch (error) {
       console.error('[Scenaro] Error reloading cart:', error);
@@ -75,34 +273,81 @@ class CartCRUD {
     }
   }
 
-  // ADD (simple product)
-  async add({ productId, qty = 1 }: { productId: string | number; qty?: number }): Promise<any> {
+  // Last error flashed by Magento (mage-messages cookie), HTML stripped
+  lastErrorMessage($: MagentoJQuery): string | null {
+    try {
+      const raw = $.mage?.cookies?.get('mage-messages');
+      const messages = raw ? JSON.parse(decodeURIComponent(raw)) : [];
+      const error = messages.find((message: any) => message.type === 'error');
+      return error ? String(error.text).replace(/<[^>]+>/g, '') : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Build the error for a refused add: name missing selections when the product page declares them
+  async addFailure($: MagentoJQuery, params: CartAddParams, productUrl: string): Promise<ConnectorError> {
+    const message = this.lastErrorMessage($) || 'Product could not be added to cart';
+    try {
+      const html = await $.ajax({ url: productUrl, type: 'GET', dataType: 'html' });
+      const missing = missingFrom(parseRequiredOptions(html), params);
+      if (missing.length > 0) {
+        const labels = missing.map((option) => option.label).join(', ');
+        return new ConnectorError('MISSING_OPTIONS', `Missing required options: ${labels}`, { missingOptions: missing });
+      }
+    } catch (error) {
+      console.warn('[Scenaro] Could not read product options:', error);
+    }
+    return toConnectorError(200, message, 'add product');
+  }
+
+  // ADD (simple, configurable, bundle, downloadable and custom-option products)
+  // reload = false skips the customerData reload (batches reload once at the end) and resolves null
+  async add(params: CartAddParams, reload = true): Promise<any> {
+    const { productId, qty = 1 } = params;
     try {
       const { $, customerData } = await this.loadMagentoDeps();
       const formKey = await this.formKey($);
 
       if (!formKey) {
-        throw new Error('form_key is required');
+        throw new ConnectorError('FORM_KEY_MISSING', 'form_key is required');
+      }
+
+      // Nested objects are serialized by jQuery as super_attribute[93]=52, options[12][]=3, links[]=1
+      const data: Record<string, any> = {
+        product: String(productId),
+        qty: String(qty),
+        form_key: formKey
+      };
+      for (const field of ['super_attribute', 'options', 'bundle_option', 'bundle_option_qty', 'links'] as const) {
+        if (params[field]) {
+          data[field] = params[field];
+        }
       }
 
       return new Promise((resolve, reject) => {
         $.ajax({
           url: '/checkout/cart/add',
           type: 'POST',
-          data: {
-            product: String(productId),
-            qty: String(qty),
-            form_key: formKey
-          },
+          data,
+          dataType: 'json',
           headers: { 'X-Requested-With': 'XMLHttpRequest' }
-        }).done(async () => {
+        }).done(async (response: any) => {
+          // Magento answers 200 with a backUrl to the product page when the product was not added
+          // (a backUrl to the cart page only means "redirect to cart after add" is enabled)
+          const backUrl = response?.backUrl;
+          if (backUrl && !new URL(backUrl, window.location.href).pathname.startsWith('/checkout/cart')) {
+            const error = await this.addFailure($, params, backUrl);
+            console.error(`[Scenaro] ❌ add refused`, error.message);
+            reject(error);
+            return;
+          }
           console.log(`[Scenaro] ✅ Added product ${productId} (qty ${qty})`);
-          const cart = await this.reload(customerData);
-          resolve(cart);
+          resolve(reload ? await this.reload(customerData) : null);
         }).fail((xhr: any) => {
-          const errorMsg = xhr.responseText?.slice(0, 300) || 'Unknown error';
+          const errorMsg = this.lastErrorMessage($) || xhr.responseJSON?.message || xhr.responseText?.slice(0, 300) || 'Unknown error';
           console.error(`[Scenaro] ❌ add failed`, xhr.status, errorMsg);
-          reject(new Error(`Failed to add product: ${xhr.status} - ${errorMsg}`));
+          reject(toConnectorError(xhr.status, errorMsg, 'add product'));
         });
       });
     } catch (error) {
@@ -113,13 +358,13 @@ class CartCRUD {
 
   // UPDATE qty (par item_id du minicart)
   // itemId = cart.items[n].item_id
-  async updateQty({ itemId, qty }: { itemId: string | number; qty: number }): Promise<any> {
+  async updateQty({ itemId, qty }: { itemId: string | number; qty: number }, reload = true): Promise<any> {
     try {
       const { $, customerData } = await this.loadMagentoDeps();
       const formKey = await this.formKey($);
 
       if (!formKey) {
-        throw new Error('form_key is required');
+        throw new ConnectorError('FORM_KEY_MISSING', 'form_key is required');
       }
 
       // Magento attend souvent un payload du type cart[item_id][qty]
@@ -136,12 +381,11 @@ class CartCRUD {
           headers: { 'X-Requested-With': 'XMLHttpRequest' }
         }).done(async () => {
           console.log(`[Scenaro] ✅ Updated item ${itemId} qty -> ${qty}`);
-          const cart = await this.reload(customerData);
-          resolve(cart);
+          resolve(reload ? await this.reload(customerData) : null);
         }).fail((xhr: any) => {
-          const errorMsg = xhr.responseText?.slice(0, 300) || 'Unknown error';
+          const errorMsg = this.lastErrorMessage($) || xhr.responseJSON?.message || xhr.responseText?.slice(0, 300) || 'Unknown error';
           console.error(`[Scenaro] ❌ updateQty failed`, xhr.status, errorMsg);
-          reject(new Error(`Failed to update item: ${xhr.status} - ${errorMsg}`));
+          reject(toConnectorError(xhr.status, errorMsg, 'update item'));
         });
       });
     } catch (error) {
@@ -151,13 +395,13 @@ class CartCRUD {
   }
 
   // DELETE item (par item_id du minicart)
-  async remove({ itemId }: { itemId: string | number }): Promise<any> {
+  async remove({ itemId }: { itemId: string | number }, reload = true): Promise<any> {
     try {
       const { $, customerData } = await this.loadMagentoDeps();
       const formKey = await this.formKey($);
 
       if (!formKey) {
-        throw new Error('form_key is required');
+        throw new ConnectorError('FORM_KEY_MISSING', 'form_key is required');
       }
 
       // Route standard Magento: /checkout/cart/delete/id/<itemId>/
@@ -169,12 +413,11 @@ class CartCRUD {
           headers: { 'X-Requested-With': 'XMLHttpRequest' }
         }).done(async () => {
           console.log(`[Scenaro] ✅ Removed item ${itemId}`);
-          const cart = await this.reload(customerData);
-          resolve(cart);
+          resolve(reload ? await this.reload(customerData) : null);
         }).fail((xhr: any) => {
-          const errorMsg = xhr.responseText?.slice(0, 300) || 'Unknown error';
+          const errorMsg = this.lastErrorMessage($) || xhr.responseJSON?.message || xhr.responseText?.slice(0, 300) || 'Unknown error';
           console.error(`[Scenaro] ❌ remove failed`, xhr.status, errorMsg);
-          reject(new Error(`Failed to remove item: ${xhr.status} - ${errorMsg}`));
+          reject(toConnectorError(xhr.status, errorMsg, 'remove item'));
         });
       });
     } catch (error) {
@@ -186,83 +429,469 @@ class CartCRUD {
   // CLEAR cart (supprime tout)
   // Note: il n'y a pas toujours un endpoint "clear" natif standard.
   // On le fait en supprimant tous les items un par un.
-  async clear(): Promise<void> {
+  async clear(onProgress?: (progress: CartProgress) => void): Promise<any> {
     try {
+      const { customerData } = await this.loadMagentoDeps();
       const cart = await this.list();
-      const items = cart?.items || [];
+      const items = (cart?.items || []).filter((item: any) => item.item_id);
 
-      // Remove all items sequentially
-      for (const item of items) {
-        if (item.item_id) {
-          await this.remove({ itemId: item.item_id });
-        }
+      // Remove all items sequentially, reporting progress after each one; reload customerData once
+      for (let i = 0; i < items.length; i++) {
+        await this.remove({ itemId: items[i].item_id }, false);
+        onProgress?.({ done: i + 1, total: items.length });
       }
 
       console.log('[Scenaro] 🧹 Cart cleared');
+      return await this.reload(customerData);
     } catch (error) {
       console.error('[Scenaro] Error clearing cart:', error);
       throw error;
     }
   }
-}
 
-const cartCRUD = new CartCRUD();
+  // COUPON apply / remove through the cart page form; Magento answers with the cart page
+  // (redirect), whose checkoutConfig carries the new totals and the applied code
+  async coupon(code: string, remove: boolean): Promise<{ cart: any; totals: any }> {
+    try {
+      const { $, customerData } = await this.loadMagentoDeps();
+      const formKey = await this.formKey($);
 
-export const MagentoConnector: Connector = {
-  name: 'magento',
+      if (!formKey) {
+        throw new ConnectorError('FORM_KEY_MISSING', 'form_key is required');
+      }
 
-  async refreshCart(): Promise<void> {
-    try {
-      console.log('[Scenaro] Refreshing Magento cart...');
-      const { customerData } = await cartCRUD.loadMagentoDeps();
-      customerData.reload(['cart'], true);
+      return new Promise((resolve, reject) => {
+        $.ajax({
+          url: '/checkout/cart/couponPost',
+          type: 'POST',
+          data: { coupon_code: code, remove: remove ? '1' : '0', form_key: formKey },
+          dataType: 'html'
+        }).done(async (html: string) => {
+          const totals = checkoutConfigFrom(html)?.totalsData || null;
+          const applied = totals ? String(totals.coupon_code || '').toLowerCase() === code.toLowerCase() : null;
+          const errorMsg = this.lastErrorMessage($);
+          // Without checkoutConfig (customized cart page), rely on the flashed message
+          if (!remove && (applied === false || (applied === null && errorMsg))) {
+            const message = errorMsg || `The coupon code "${code}" is not valid.`;
+            console.error('[Scenaro] ❌ coupon refused', message);
+            reject(new ConnectorError('COUPON_INVALID', message, { couponCode: code }));
+            return;
+          }
+          console.log(remove ? '[Scenaro] ✅ Coupon removed' : `[Scenaro] ✅ Applied coupon ${code}`);
+          const cart = await this.reload(customerData);
+          resolve({ cart, totals });
+        }).fail((xhr: any) => {
+          const errorMsg = this.lastErrorMessage($) || xhr.responseText?.slice(0, 300) || 'Unknown error';
+          console.error('[Scenaro] ❌ coupon failed', xhr.status, errorMsg);
+          reject(toConnectorError(xhr.status, errorMsg, remove ? 'remove coupon' : 'apply coupon'));
+        });
+      });
     } catch (error) {
-      console.error('[Scenaro] Error refreshing Magento cart:', error);
+      console.error('[Scenaro] Error in coupon operation:', error);
+      throw error;
     }
-  },
+  }
 
-  async listCart(): Promise<any> {
-    try {
-      return await cartCRUD.list();
-    } catch (error) {
-      console.error('[Scenaro] Error listing cart:', error);
-      throw error;
+  // WISHLIST: customer accounts only; the customer section has a name once logged in
+  async requireLogin(customerData: any): Promise<void> {
+    const loggedIn = () => {
+      const customer = customerData.get('customer')();
+      return !!(customer?.firstname || customer?.fullname);
+    };
+    if (!loggedIn()) {
+      // The section may not be loaded yet on this page
+      await customerData.reload(['customer'], false);
+    }
+    if (!loggedIn()) {
+      throw new ConnectorError('LOGIN_REQUIRED', 'Log in to use the wishlist');
     }
-  },
+  }
 
-  async addToCart(params: { productId: string | number; qty?: number }): Promise<any> {
-    try {
-      return await cartCRUD.add(params);
-    } catch (error) {
-      console.error('[Scenaro] Error adding to cart:', error);
-      throw error;
+  async reloadWishlist(customerData: any): Promise<any> {
+    await customerData.reload(['wishlist'], true);
+    return customerData.get('wishlist')();
+  }
+
+  async listWishlist(): Promise<any> {
+    const { customerData } = await this.loadMagentoDeps();
+    await this.requireLogin(customerData);
+    return this.reloadWishlist(customerData);
+  }
+
+  // Raw mage-messages cookie before a call: a message is only the call's own when the cookie changed
+  messagesSnapshot($: MagentoJQuery): string | null {
+    return $.mage?.cookies?.get('mage-messages') ?? null;
+  }
+
+  freshErrorMessage($: MagentoJQuery, snapshot: string | null): string | null {
+    return this.messagesSnapshot($) !== snapshot ? this.lastErrorMessage($) : null;
+  }
+
+  // ADD (same form fields as a cart add). Magento redirects either way: the reloaded section decides
+  async addToWishlist(params: CartAddParams): Promise<any> {
+    const { productId, qty = 1 } = params;
+    const { $, customerData } = await this.loadMagentoDeps();
+    await this.requireLogin(customerData);
+    const formKey = await this.formKey($);
+
+    if (!formKey) {
+      throw new ConnectorError('FORM_KEY_MISSING', 'form_key is required');
     }
-  },
 
-  async updateCart(params: { itemId: string | number; qty: number }): Promise<any> {
-    try {
-      return await cartCRUD.updateQty(params);
-    } catch (error) {
-      console.error('[Scenaro] Error updating cart item:', error);
-      throw error;
+    const data: Record<string, any> = { product: String(productId), qty: String(qty), form_key: formKey };
+    for (const field of ['super_attribute', 'options', 'bundle_option', 'bundle_option_qty', 'links'] as const) {
+      if (params[field]) {
+        data[field] = params[field];
+      }
     }
-  },
+    const before = wishlistCount(await this.reloadWishlist(customerData));
+    const snapshot = this.messagesSnapshot($);
 
-  async removeCart(params: { itemId: string | number }): Promise<any> {
-    try {
-      return await cartCRUD.remove(params);
-    } catch (error) {
-      console.error('[Scenaro] Error removing cart item:', error);
-      throw error;
+    return new Promise((resolve, reject) => {
+      $.ajax({
+        url: '/wishlist/index/add',
+        type: 'POST',
+        data,
+        dataType: 'html'
+      }).done(async () => {
+        const wishlist = await this.reloadWishlist(customerData);
+        // New items come first in the section; a product already saved only gets its qty raised
+        const saved = (wishlist?.items || []).some((item: any) => String(item.product_id) === String(productId));
+        if (wishlistCount(wishlist) <= before && !saved) {
+          const errorMsg = this.freshErrorMessage($, snapshot) || 'Product could not be added to the wishlist';
+          console.error('[Scenaro] ❌ wishlist add refused', errorMsg);
+          reject(toConnectorError(200, errorMsg, 'add to wishlist'));
+          return;
+        }
+        resolve(wishlist);
+      }).fail((xhr: any) => {
+        const errorMsg = this.freshErrorMessage($, snapshot) || xhr.responseText?.slice(0, 300) || 'Unknown error';
+        console.error('[Scenaro] ❌ wishlist add failed', xhr.status, errorMsg);
+        reject(toConnectorError(xhr.status, errorMsg, 'add to wishlist'));
+      });
+    });
+  }
+
+  // DELETE item (itemId = wishlist item id); removed when the wishlist count drops
+  async removeFromWishlist({ itemId }: { itemId: string | number }): Promise<any> {
+    const { $, customerData } = await this.loadMagentoDeps();
+    await this.requireLogin(customerData);
+    const formKey = await this.formKey($);
+
+    if (!formKey) {
+      throw new ConnectorError('FORM_KEY_MISSING', 'form_key is required');
     }
-  },
 
-  async clearCart(): Promise<void> {
-    try {
-      await cartCRUD.clear();
-    } catch (error) {
-      console.error('[Scenaro] Error clearing cart:', error);
-      throw error;
+    const before = wishlistCount(await this.reloadWishlist(customerData));
+    const snapshot = this.messagesSnapshot($);
+
+    return new Promise((resolve, reject) => {
+      $.ajax({
+        url: '/wishlist/index/remove',
+        type: 'POST',
+        data: { item: String(itemId), form_key: formKey },
+        dataType: 'html'
+      }).done(async () => {
+        const wishlist = await this.reloadWishlist(customerData);
+        if (wishlistCount(wishlist) >= before) {
+          const errorMsg = this.freshErrorMessage($, snapshot) || `Wishlist item ${itemId} could not be removed`;
+          console.error('[Scenaro] ❌ wishlist remove refused', errorMsg);
+          reject(toConnectorError(200, errorMsg, 'remove from wishlist'));
+          return;
+        }
+        resolve(wishlist);
+      }).fail((xhr: any) => {
+        const errorMsg = this.freshErrorMessage($, snapshot) || xhr.responseText?.slice(0, 300) || 'Unknown error';
+        console.error('[Scenaro] ❌ wishlist remove failed', xhr.status, errorMsg);
+        reject(toConnectorError(xhr.status, errorMsg, 'remove from wishlist'));
+      });
+    });
+  }
+
+  // MOVE to cart: ajax calls answer { backUrl }; a configure page means options must be chosen first.
+  // Moved when the cart count grows.
+  async moveWishlistToCart({ itemId, qty }: { itemId: string | number; qty?: number }): Promise<{ wishlist: any; cart: any }> {
+    const { $, customerData } = await this.loadMagentoDeps();
+    await this.requireLogin(customerData);
+    const formKey = await this.formKey($);
+
+    if (!formKey) {
+      throw new ConnectorError('FORM_KEY_MISSING', 'form_key is required');
     }
+
+    const data: Record<string, string> = { item: String(itemId), form_key: formKey };
+    if (qty !== undefined) {
+      data.qty = String(qty);
+    }
+    const before = Number((await this.reload(customerData))?.summary_count) || 0;
+    const snapshot = this.messagesSnapshot($);
+
+    return new Promise((resolve, reject) => {
+      $.ajax({
+        url: '/wishlist/index/cart',
+        type: 'POST',
+        data,
+        dataType: 'json',
+        headers: { 'X-Requested-With': 'XMLHttpRequest' }
+      }).done(async (response: any) => {
+        if (/\/wishlist\/index\/configure\//.test(response?.backUrl || '')) {
+          console.error('[Scenaro] ❌ wishlist item needs options');
+          reject(new ConnectorError('MISSING_OPTIONS', 'Choose the product options before adding it to the cart', { itemId }));
+          return;
+        }
+        const cart = await this.reload(customerData);
+        if ((Number(cart?.summary_count) || 0) <= before) {
+          const errorMsg = this.freshErrorMessage($, snapshot) || `Wishlist item ${itemId} could not be added to the cart`;
+          console.error('[Scenaro] ❌ move to cart refused', errorMsg);
+          reject(toConnectorError(200, errorMsg, 'move to cart'));
+          return;
+        }
+        resolve({ wishlist: await this.reloadWishlist(customerData), cart });
+      }).fail((xhr: any) => {
+        const errorMsg = this.freshErrorMessage($, snapshot) || xhr.responseJSON?.message || xhr.responseText?.slice(0, 300) || 'Unknown error';
+        console.error('[Scenaro] ❌ move to cart failed', xhr.status, errorMsg);
+        reject(toConnectorError(xhr.status, errorMsg, 'move to cart'));
+      });
+    });
+  }
+
+  // BATCH: operations in order (first failure stops), one customerData reload at the end
+  async batch(operations: CartOperation[], onProgress?: (progress: CartProgress) => void): Promise<{ cart: any; results: CartOperationResult[] }> {
+    const { customerData } = await this.loadMagentoDeps();
+    const results = await runCartOperations(operations, async (operation) => {
+      if (operation.op === 'add') {
+        await this.add(operation.data, false);
+      } else if (operation.op === 'update') {
+        await this.updateQty(operation.data, false);
+      } else {
+        await this.remove(operation.data, false);
+      }
+    }, onProgress);
+    return { cart: await this.reload(customerData), results };
   }
-};
+}
+
+const cartCRUD = new CartCRUD();
+
+/** Magento connector; the backend is detected on every call unless options.backend is set. */
+export function createMagentoConnector(options: MagentoConnectorOptions = {}): Connector {
+  const graphqlCRUD = new GraphQLCartCRUD(options);
+  // Every backend reads the catalog through GraphQL
+  const catalog = new GraphQLCatalog(graphqlCRUD);
+  const graphqlWishlist = new GraphQLWishlist(graphqlCRUD);
+  // Detected lazily: the connector can load before the storefront's scripts
+  const useGraphQL = () => (options.backend || (detectMagentoStorefront() === 'luma' ? 'storefront' : 'graphql')) === 'graphql';
+
+  return {
+    name: 'magento',
+
+    async refreshCart(): Promise<void> {
+      try {
+        console.log('[Scenaro] Refreshing Magento cart...');
+        if (useGraphQL()) {
+          syncStorefront();
+          return;
+        }
+        const { customerData } = await cartCRUD.loadMagentoDeps();
+        customerData.reload(['cart'], true);
+      } catch (error) {
+        console.error('[Scenaro] Error refreshing Magento cart:', error);
+      }
+    },
+
+    async listCart(): Promise<NormalizedCart> {
+      try {
+        return useGraphQL() ? await graphqlCRUD.list() : normalizeCart(await cartCRUD.list());
+      } catch (error) {
+        console.error('[Scenaro] Error listing cart:', error);
+        throw error;
+      }
+    },
+
+    async addToCart(params: CartAddParams): Promise<NormalizedCart> {
+      try {
+        if (useGraphQL()) {
+          const cart = await graphqlCRUD.add(params);
+          syncStorefront();
+          return cart;
+        }
+        return normalizeCart(await cartCRUD.add(params));
+      } catch (error) {
+        console.error('[Scenaro] Error adding to cart:', error);
+        throw error;
+      }
+    },
+
+    async updateCart(params: { itemId: string | number; qty: number }): Promise<NormalizedCart> {
+      try {
+        if (useGraphQL()) {
+          const cart = await graphqlCRUD.updateQty(params);
+          syncStorefront();
+          return cart;
+        }
+        return normalizeCart(await cartCRUD.updateQty(params));
+      } catch (error) {
+        console.error('[Scenaro] Error updating cart item:', error);
+        throw error;
+      }
+    },
+
+    async removeCart(params: { itemId: string | number }): Promise<NormalizedCart> {
+      try {
+        if (useGraphQL()) {
+          const cart = await graphqlCRUD.remove(params);
+          syncStorefront();
+          return cart;
+        }
+        return normalizeCart(await cartCRUD.remove(params));
+      } catch (error) {
+        console.error('[Scenaro] Error removing cart item:', error);
+        throw error;
+      }
+    },
+
+    async clearCart(onProgress?: (progress: CartProgress) => void): Promise<NormalizedCart> {
+      try {
+        if (useGraphQL()) {
+          const cart = await graphqlCRUD.clear(onProgress);
+          syncStorefront();
+          return cart;
+        }
+        return normalizeCart(await cartCRUD.clear(onProgress));
+      } catch (error) {
+        console.error('[Scenaro] Error clearing cart:', error);
+        throw error;
+      }
+    },
+
+    async batchCart(operations: CartOperation[], onProgress?: (progress: CartProgress) => void): Promise<CartBatchResult> {
+      try {
+        if (useGraphQL()) {
+          const batch = await graphqlCRUD.batch(operations, onProgress);
+          syncStorefront();
+          return batch;
+        }
+        const batch = await cartCRUD.batch(operations, onProgress);
+        return { cart: normalizeCart(batch.cart), results: batch.results };
+      } catch (error) {
+        console.error('[Scenaro] Error running cart batch:', error);
+        throw error;
+      }
+    },
+
+    async applyCoupon(code: string): Promise<NormalizedCart> {
+      try {
+        if (useGraphQL()) {
+          const cart = await graphqlCRUD.applyCoupon(code);
+          syncStorefront();
+          return cart;
+        }
+        const { cart, totals } = await cartCRUD.coupon(code, false);
+        return withTotals(normalizeCart(cart), totals);
+      } catch (error) {
+        console.error('[Scenaro] Error applying coupon:', error);
+        throw error;
+      }
+    },
+
+    // Magento Open Source applies one coupon per cart: any code removes it
+    async removeCoupon(code?: string): Promise<NormalizedCart> {
+      try {
+        if (useGraphQL()) {
+          const cart = await graphqlCRUD.removeCoupon();
+          syncStorefront();
+          return cart;
+        }
+        const { cart, totals } = await cartCRUD.coupon(code || '', true);
+        return withTotals(normalizeCart(cart), totals);
+      } catch (error) {
+        console.error('[Scenaro] Error removing coupon:', error);
+        throw error;
+      }
+    },
+
+    async getProduct(query: ProductQuery): Promise<NormalizedProduct> {
+      try {
+        return await catalog.get(query);
+      } catch (error) {
+        console.error('[Scenaro] Error loading product:', error);
+        throw error;
+      }
+    },
+
+    async searchProducts(query: string, limit: number): Promise<NormalizedProduct[]> {
+      try {
+        return await catalog.search(query, limit);
+      } catch (error) {
+        console.error('[Scenaro] Error searching products:', error);
+        throw error;
+      }
+    },
+
+    async listWishlist(): Promise<NormalizedWishlist> {
+      try {
+        return useGraphQL() ? await graphqlWishlist.list() : normalizeWishlist(await cartCRUD.listWishlist());
+      } catch (error) {
+        console.error('[Scenaro] Error listing wishlist:', error);
+        throw error;
+      }
+    },
+
+    async addToWishlist(params: CartAddParams): Promise<NormalizedWishlist> {
+      try {
+        return useGraphQL() ? await graphqlWishlist.add(params) : normalizeWishlist(await cartCRUD.addToWishlist(params));
+      } catch (error) {
+        console.error('[Scenaro] Error adding to wishlist:', error);
+        throw error;
+      }
+    },
+
+    async removeFromWishlist(params: { itemId: string | number }): Promise<NormalizedWishlist> {
+      try {
+        return useGraphQL() ? await graphqlWishlist.remove(params) : normalizeWishlist(await cartCRUD.removeFromWishlist(params));
+      } catch (error) {
+        console.error('[Scenaro] Error removing wishlist item:', error);
+        throw error;
+      }
+    },
+
+    async moveWishlistToCart(params: { itemId: string | number; qty?: number }): Promise<{ wishlist: NormalizedWishlist; cart: NormalizedCart }> {
+      try {
+        if (useGraphQL()) {
+          const moved = await graphqlWishlist.moveToCart(params, () => graphqlCRUD.list());
+          syncStorefront();
+          return moved;
+        }
+        const { wishlist, cart } = await cartCRUD.moveWishlistToCart(params);
+        return { wishlist: normalizeWishlist(wishlist), cart: normalizeCart(cart) };
+      } catch (error) {
+        console.error('[Scenaro] Error moving wishlist item to cart:', error);
+        throw error;
+      }
+    },
+
+    async watchCart(listener: (cart: NormalizedCart) => void): Promise<() => void> {
+      if (useGraphQL()) {
+        // Hyvä fires private-content-loaded after every section reload (product page add, minicart)
+        const handler = async () => {
+          try {
+            listener(await graphqlCRUD.list());
+          } catch (error) {
+            console.warn('[Scenaro] Could not reload GraphQL cart:', error);
+          }
+        };
+        window.addEventListener('private-content-loaded', handler);
+        return () => window.removeEventListener('private-content-loaded', handler);
+      }
+      // customerData 'cart' is a knockout observable updated by the minicart and every section reload
+      const { customerData } = await cartCRUD.loadMagentoDeps();
+      const subscription = customerData.get('cart').subscribe((cart: any) => listener(normalizeCart(cart)));
+      return () => subscription.dispose();
+    }
+  };
+}
+
+export const MagentoConnector = createMagentoConnector();
+
+// Entry point used by the widget loader (connectors/{name}.js must export connector)
+export const connector = MagentoConnector;
@@ -0,0 +1,165 @@
+import { ConnectorError } from '../../errors';
+import { CartAddParams, NormalizedCart, NormalizedWishlist, NormalizedWishlistItem } from '../../types';
+import { toConnectorError } from './errors';
+import { cartItemOptions, GraphQLCartCRUD, skuOf, toMinorUnits, USER_ERROR_CODES } from './graphql';
+
+// GraphQL wishlist (Hyvä and headless storefronts): customer wishlists need a customer token or
+// session; when GraphQL refuses both, the shopper is a guest (LOGIN_REQUIRED).
+
+const WISHLIST_FIELDS = `
+  id
+  items_count
+  items_v2(pageSize: 100) {
+    items {
+      id
+      quantity
+      product {
+        id sku name url_key url_suffix stock_status small_image { url }
+        price_range { minimum_price { final_price { value currency } } }
+      }
+      ... on ConfigurableWishlistItem { configurable_options { option_label value_label } }
+    }
+  }
+`;
+
+// GraphQL wishlist -> NormalizedWishlist (itemId is the wishlist item id)
+export function normalizeGraphQLWishlist(wishlist: any): NormalizedWishlist {
+  const items: NormalizedWishlistItem[] = (wishlist?.items_v2?.items || []).filter(Boolean).map((item: any) => {
+    const product = item.product || {};
+    return {
+      itemId: String(item.id),
+      productId: String(product.id),
+      sku: product.sku,
+      name: product.name,
+      qty: Number(item.quantity) || 1,
+      price: toMinorUnits(product.price_range?.minimum_price?.final_price?.value),
+      imageUrl: product.small_image?.url,
+      url: product.url_key ? `/${product.url_key}${product.url_suffix ?? '.html'}` : undefined,
+      options: (item.configurable_options || []).map((option: any) => ({
+        label: String(option.option_label),
+        value: String(option.value_label)
+      })),
+      canMoveToCart: product.stock_status === 'IN_STOCK'
+    };
+  });
+
+  return {
+    items,
+    itemCount: Number(wishlist?.items_count) || items.length,
+    currency: wishlist?.items_v2?.items?.[0]?.product?.price_range?.minimum_price?.final_price?.currency || null,
+    raw: wishlist
+  };
+}
+
+// user_errors of the wishlist mutations -> ConnectorError
+function userErrorOf(userError: { code: string; message: string }, operation: string): ConnectorError {
+  const code = USER_ERROR_CODES[userError.code];
+  const details = { operation, userErrorCode: userError.code };
+  if (code) {
+    return new ConnectorError(code, userError.message, details);
+  }
+  const mapped = toConnectorError(200, userError.message, operation);
+  return new ConnectorError(mapped.code, mapped.message, details);
+}
+
+export class GraphQLWishlist {
+  private graphql: GraphQLCartCRUD;
+
+  constructor(graphql: GraphQLCartCRUD) {
+    this.graphql = graphql;
+  }
+
+  // The customer's first wishlist (Magento Open Source has exactly one)
+  async load(): Promise<any> {
+    let data: any;
+    try {
+      data = await this.graphql.request(`query ScenaroWishlist { customer { wishlists { ${WISHLIST_FIELDS} } } }`, {}, 'load wishlist');
+    } catch (error) {
+      // Without a token, an authorization error means no customer session either; an expired token stays SESSION_EXPIRED
+      const guest = error instanceof ConnectorError && error.code === 'SESSION_EXPIRED' && !(await this.graphql.customerToken());
+      if (guest) {
+        throw new ConnectorError('LOGIN_REQUIRED', 'Log in to use the wishlist');
+      }
+      throw error;
+    }
+    const wishlist = data.customer?.wishlists?.[0];
+    if (!wishlist) {
+      throw new ConnectorError('CONNECTOR_UNAVAILABLE', 'Wishlist is disabled on this store');
+    }
+    return wishlist;
+  }
+
+  // LIST
+  async list(): Promise<NormalizedWishlist> {
+    return normalizeGraphQLWishlist(await this.load());
+  }
+
+  // ADD (by SKU, with the same selections as a cart add)
+  async add(params: CartAddParams): Promise<NormalizedWishlist> {
+    const sku = skuOf(params);
+    const { id } = await this.load();
+    const { selected_options, entered_options } = cartItemOptions(params);
+    const data = await this.graphql.request(`
+      mutation ScenaroAddToWishlist($wishlistId: ID!, $items: [WishlistItemInput!]!) {
+        addProductsToWishlist(wishlistId: $wishlistId, wishlistItems: $items) {
+          wishlist { ${WISHLIST_FIELDS} }
+          user_errors { code message }
+        }
+      }
+    `, { wishlistId: id, items: [{ sku, quantity: params.qty ?? 1, selected_options, entered_options }] }, 'add to wishlist');
+    const userError = data.addProductsToWishlist.user_errors?.[0];
+    if (userError) {
+      throw userErrorOf(userError, 'add to wishlist');
+    }
+    return normalizeGraphQLWishlist(data.addProductsToWishlist.wishlist);
+  }
+
+  // DELETE item
+  async remove({ itemId }: { itemId: string | number }): Promise<NormalizedWishlist> {
+    const { id } = await this.load();
+    const data = await this.graphql.request(`
+      mutation ScenaroRemoveFromWishlist($wishlistId: ID!, $itemIds: [ID!]!) {
+        removeProductsFromWishlist(wishlistId: $wishlistId, wishlistItemsIds: $itemIds) {
+          wishlist { ${WISHLIST_FIELDS} }
+          user_errors { code message }
+        }
+      }
+    `, { wishlistId: id, itemIds: [String(itemId)] }, 'remove from wishlist');
+    const userError = data.removeProductsFromWishlist.user_errors?.[0];
+    if (userError) {
+      throw userErrorOf(userError, 'remove from wishlist');
+    }
+    return normalizeGraphQLWishlist(data.removeProductsFromWishlist.wishlist);
+  }
+
+  // MOVE to the customer cart (addWishlistItemsToCart takes the saved quantity: update it first)
+  async moveToCart({ itemId, qty }: { itemId: string | number; qty?: number }, listCart: () => Promise<NormalizedCart>): Promise<{ wishlist: NormalizedWishlist; cart: NormalizedCart }> {
+    const { id } = await this.load();
+    if (qty !== undefined) {
+      const updated = await this.graphql.request(`
+        mutation ScenaroUpdateWishlist($wishlistId: ID!, $items: [WishlistItemUpdateInput!]!) {
+          updateProductsInWishlist(wishlistId: $wishlistId, wishlistItems: $items) { user_errors { code message } }
+        }
+      `, { wishlistId: id, items: [{ wishlist_item_id: String(itemId), quantity: qty }] }, 'update wishlist item');
+      const updateError = updated.updateProductsInWishlist.user_errors?.[0];
+      if (updateError) {
+        throw userErrorOf(updateError, 'update wishlist item');
+      }
+    }
+    const data = await this.graphql.request(`
+      mutation ScenaroWishlistToCart($wishlistId: ID!, $itemIds: [ID!]) {
+        addWishlistItemsToCart(wishlistId: $wishlistId, wishlistItemIds: $itemIds) {
+          status
+          wishlist { ${WISHLIST_FIELDS} }
+          add_wishlist_items_to_cart_user_errors { code message }
+        }
+      }
+    `, { wishlistId: id, itemIds: [String(itemId)] }, 'move to cart');
+    const result = data.addWishlistItemsToCart;
+    const userError = result.add_wishlist_items_to_cart_user_errors?.[0];
+    if (!result.status || userError) {
+      throw userErrorOf(userError || { code: 'UNDEFINED', message: 'Wishlist item could not be added to the cart' }, 'move to cart');
+    }
+    return { wishlist: normalizeGraphQLWishlist(result.wishlist), cart: await listCart() };
+  }
+}
@@ -0,0 +1,632 @@
+import { ConnectorError } from '../../errors';
+import {
+  CartAddParams,
+  CartBatchResult,
+  CartErrorCode,
+  CartOperation,
+  CartProgress,
+  Connector,
+  MissingCartOption,
+  NormalizedCart,
+  NormalizedCartItem,
+  NormalizedProduct,
+  NormalizedWishlist,
+  ProductQuery
+} from '../../types';
+import { runCartOperations } from '../batch';
+
+// In-memory connector: seeded catalog, stock limits, failure and latency injection.
+// No network and no platform globals, so cart flows run offline (jsdom, local runtime, demos).
+
+export interface MockProduct {
+  id: string;
+  sku: string;
+  name: string;
+  /** Unit price in minor units */
+  price: number;
+  /** Units available; adding or updating beyond it fails with OUT_OF_STOCK */
+  stock: number;
+  /** Selections an add request must include (MISSING_OPTIONS otherwise) */
+  requiredOptions?: MissingCartOption[];
+  /** Values offered for each required option (by option id), returned by catalog lookups */
+  optionValues?: Record<string, Array<{ id: string; label: string }>>;
+}
+
+export type MockOperation =
+  | 'listCart'
+  | 'addToCart'
+  | 'updateCart'
+  | 'removeCart'
+  | 'clearCart'
+  | 'applyCoupon'
+  | 'removeCoupon'
+  | 'getProduct'
+  | 'searchProducts'
+  | 'listWishlist'
+  | 'addToWishlist'
+  | 'removeFromWishlist'
+  | 'moveWishlistToCart';
+
+export interface MockConnectorOptions {
+  catalog?: MockProduct[];
+  currency?: string;
+  /** Accepted coupon codes -> percent off the subtotal (default: WELCOME10 = 10%) */
+  coupons?: Record<string, number>;
+  /** Guest shoppers get LOGIN_REQUIRED from wishlist operations (default: logged in) */
+  loggedIn?: boolean;
+  /** Delay (ms) before every operation resolves */
+  latencyMs?: number;
+  /** Operations that always fail with the given code */
+  failures?: Partial<Record<MockOperation, CartErrorCode>>;
+}
+
+/** Connector plus test controls */
+export interface MockConnector extends Connector {
+  setLatency(ms: number): void;
+  /** Fail the next call of an operation (once) */
+  failNext(operation: MockOperation, code: CartErrorCode, message?: string): void;
+  setStock(productId: string, stock: number): void;
+  /** Change the cart as the host page would (e.g. minicart), notifying watchCart listeners */
+  hostAdd(productId: string, qty?: number): void;
+  /** Guest (false) or logged-in shopper, for wishlist operations */
+  setLoggedIn(loggedIn: boolean): void;
+  /** Empty the cart and wishlist and restore the initial options */
+  reset(): void;
+}
+
+export const MOCK_CATALOG: MockProduct[] = [
+  {
+    id: '1001',
+    sku: 'MJ01',
+    name: 'Beaumont Summit Kit',
+    price: 4200,
+    stock: 10,
+    requiredOptions: [{ field: 'super_attribute', id: '144', code: 'size', label: 'Size' }],
+    optionValues: {
+      '144': [{ id: '166', label: 'S' }, { id: '167', label: 'M' }, { id: '168', label: 'L' }]
+    }
+  },
+  { id: '1002', sku: 'WT09', name: 'Breathe-Easy Tank', price: 3400, stock: 25 },
+  { id: '1003', sku: 'MB01', name: 'Joust Duffle Bag', price: 3400, stock: 2 },
+  { id: '1004', sku: 'MH07', name: 'Hero Hoodie', price: 5400, stock: 0 }
+];
+
+interface MockLine {
+  itemId: string;
+  product: MockProduct;
+  qty: number;
+  options: Array<{ label: string; value: string }>;
+}
+
+// Wishlist items keep the add request, replayed when moved to the cart
+interface MockWishlistItem {
+  itemId: string;
+  product: MockProduct;
+  params: CartAddParams;
+}
+
+// Value selected for a required option (links: the link id itself when selected)
+function selectedValue(params: CartAddParams, option: MissingCartOption): string | null {
+  if (option.field === 'links') {
+    return (params.links || []).map(String).includes(option.id) ? option.id : null;
+  }
+  const value = params[option.field]?.[option.id];
+  return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+function missingFrom(product: MockProduct, params: CartAddParams): MissingCartOption[] {
+  return (product.requiredOptions || []).filter((option) => selectedValue(params, option) === null);
+}
+
+function selectionsOf(product: MockProduct, params: CartAddParams): Array<{ label: string; value: string }> {
+  return (product.requiredOptions || []).map((option) => ({
+    label: option.label,
+    value: selectedValue(params, option) ?? ''
+  }));
+}
+
+// Catalog handle: the product name, slugified
+function handleOf(product: MockProduct): string {
+  return product.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+class CartCRUD {
+  private lines: MockLine[] = [];
+  private nextLineId = 1;
+  private appliedCoupons: string[] = [];
+  private wishlist: MockWishlistItem[] = [];
+  private nextWishlistId = 1;
+  loggedIn: boolean;
+  private catalog: Map<string, MockProduct> = new Map();
+  private currency: string;
+  latencyMs = 0;
+  private failures: Partial<Record<MockOperation, CartErrorCode>>;
+  private failOnce: Map<MockOperation, { code: CartErrorCode; message?: string }> = new Map();
+  private listeners: Set<(cart: NormalizedCart) => void> = new Set();
+  private options: MockConnectorOptions;
+
+  constructor(options: MockConnectorOptions) {
+    this.options = options;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.currency = options.currency || 'EUR';
+    this.loggedIn = options.loggedIn ?? true;
+    this.failures = { ...options.failures };
+    this.loadCatalog();
+  }
+
+  loadCatalog(): void {
+    this.catalog = new Map((this.options.catalog || MOCK_CATALOG).map((product) => [product.id, { ...product }]));
+  }
+
+  reset(): void {
+    this.lines = [];
+    this.nextLineId = 1;
+    this.appliedCoupons = [];
+    this.wishlist = [];
+    this.nextWishlistId = 1;
+    this.loggedIn = this.options.loggedIn ?? true;
+    this.latencyMs = this.options.latencyMs ?? 0;
+    this.failures = { ...this.options.failures };
+    this.failOnce.clear();
+    this.loadCatalog();
+  }
+
+  failNext(operation: MockOperation, code: CartErrorCode, message?: string): void {
+    this.failOnce.set(operation, { code, message });
+  }
+
+  setStock(productId: string, stock: number): void {
+    const product = this.product(productId);
+    product.stock = stock;
+  }
+
+  watch(listener: (cart: NormalizedCart) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  notify(): void {
+    const cart = this.normalize();
+    this.listeners.forEach((listener) => listener(cart));
+  }
+
+  // Latency, then injected failures
+  async begin(operation: MockOperation): Promise<void> {
+    if (this.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+    }
+    const once = this.failOnce.get(operation);
+    if (once) {
+      this.failOnce.delete(operation);
+      throw new ConnectorError(once.code, once.message || `Injected ${operation} failure`, { injected: true });
+    }
+    const code = this.failures[operation];
+    if (code) {
+      throw new ConnectorError(code, `Injected ${operation} failure`, { injected: true });
+    }
+  }
+
+  product(productId: string | number): MockProduct {
+    const product = this.catalog.get(String(productId));
+    if (!product) {
+      throw new ConnectorError('PRODUCT_NOT_FOUND', `Product ${productId} does not exist`);
+    }
+    return product;
+  }
+
+  line(itemId: string | number): MockLine {
+    const line = this.lines.find((entry) => entry.itemId === String(itemId));
+    if (!line) {
+      throw new ConnectorError('PRODUCT_NOT_FOUND', `Cart item ${itemId} does not exist`);
+    }
+    return line;
+  }
+
+  // Stock is shared by every line of a product
+  checkStock(product: MockProduct, qty: number, except?: MockLine): void {
+    const inCart = this.lines
+      .filter((line) => line.product.id === product.id && line !== except)
+      .reduce((sum, line) => sum + line.qty, 0);
+    if (inCart + qty > product.stock) {
+      throw new ConnectorError('OUT_OF_STOCK', `Only ${product.stock} of ${product.name} available`, {
+        available: Math.max(product.stock - inCart, 0)
+      });
+    }
+  }
+
+  // ADD (same product + same selections = same line)
+  add(params: CartAddParams): void {
+    const product = this.product(params.productId);
+    const qty = params.qty ?? 1;
+    const missing = missingFrom(product, params);
+    if (missing.length > 0) {
+      throw new ConnectorError('MISSING_OPTIONS', `Missing required options: ${missing.map((option) => option.label).join(', ')}`, {
+        missingOptions: missing
+      });
+    }
+    const options = selectionsOf(product, params);
+    const signature = JSON.stringify(options);
+    const existing = this.lines.find((line) => line.product.id === product.id && JSON.stringify(line.options) === signature);
+    this.checkStock(product, qty + (existing?.qty ?? 0), existing);
+    if (existing) {
+      existing.qty += qty;
+    } else {
+      this.lines.push({ itemId: `line-${this.nextLineId++}`, product, qty, options });
+    }
+    console.log(`[Scenaro] ✅ Added product ${product.id} (qty ${qty})`);
+  }
+
+  // UPDATE qty (0 removes the line)
+  updateQty(itemId: string | number, qty: number): void {
+    const line = this.line(itemId);
+    if (qty === 0) {
+      this.remove(itemId);
+      return;
+    }
+    this.checkStock(line.product, qty, line);
+    line.qty = qty;
+    console.log(`[Scenaro] ✅ Updated item ${itemId} qty -> ${qty}`);
+  }
+
+  // DELETE item
+  remove(itemId: string | number): void {
+    const line = this.line(itemId);
+    this.lines = this.lines.filter((entry) => entry !== line);
+    console.log(`[Scenaro] ✅ Removed item ${itemId}`);
+  }
+
+  // CLEAR cart, line by line like the Magento connector (reports progress)
+  async clear(onProgress?: (progress: CartProgress) => void): Promise<void> {
+    const lines = [...this.lines];
+    for (let i = 0; i < lines.length; i++) {
+      if (i > 0 && this.latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+      }
+      this.remove(lines[i].itemId);
+      onProgress?.({ done: i + 1, total: lines.length });
+    }
+    console.log('[Scenaro] 🧹 Cart cleared');
+  }
+
+  // COUPON (codes are case-insensitive, stored as configured)
+  applyCoupon(code: string): void {
+    const coupons = this.options.coupons || { WELCOME10: 10 };
+    const known = Object.keys(coupons).find((entry) => entry.toLowerCase() === code.toLowerCase());
+    if (!known) {
+      throw new ConnectorError('COUPON_INVALID', `The coupon code "${code}" is not valid`, { couponCode: code });
+    }
+    if (!this.appliedCoupons.includes(known)) {
+      this.appliedCoupons.push(known);
+    }
+    console.log(`[Scenaro] ✅ Applied coupon ${known}`);
+  }
+
+  removeCoupon(code?: string): void {
+    this.appliedCoupons = code ? this.appliedCoupons.filter((entry) => entry.toLowerCase() !== code.toLowerCase()) : [];
+    console.log('[Scenaro] ✅ Coupon removed');
+  }
+
+  // CATALOG (by id, sku or handle; search matches name or sku)
+  find({ sku, productId, handle }: ProductQuery): MockProduct {
+    const product = [...this.catalog.values()].find((entry) => (
+      (productId !== undefined && entry.id === String(productId))
+      || (sku !== undefined && entry.sku === sku)
+      || (handle !== undefined && handleOf(entry) === handle)
+    ));
+    if (!product) {
+      throw new ConnectorError('PRODUCT_NOT_FOUND', `Product ${sku ?? productId ?? handle} does not exist`);
+    }
+    return product;
+  }
+
+  search(query: string, limit: number): MockProduct[] {
+    const needle = query.toLowerCase();
+    return [...this.catalog.values()]
+      .filter((product) => product.name.toLowerCase().includes(needle) || product.sku.toLowerCase() === needle)
+      .slice(0, limit);
+  }
+
+  normalizeProduct(product: MockProduct): NormalizedProduct {
+    return {
+      productId: product.id,
+      sku: product.sku,
+      handle: handleOf(product),
+      name: product.name,
+      currency: this.currency,
+      price: product.price,
+      inStock: product.stock > 0,
+      stockQty: product.stock,
+      options: (product.requiredOptions || []).map((option) => ({
+        ...option,
+        values: product.optionValues?.[option.id] || []
+      })),
+      raw: { ...product }
+    };
+  }
+
+  // WISHLIST (logged-in shoppers; the same product with the same selections is saved once)
+  requireLogin(): void {
+    if (!this.loggedIn) {
+      throw new ConnectorError('LOGIN_REQUIRED', 'Log in to use the wishlist');
+    }
+  }
+
+  addToWishlist(params: CartAddParams): void {
+    this.requireLogin();
+    const product = this.product(params.productId);
+    const signature = JSON.stringify(selectionsOf(product, params));
+    const saved = this.wishlist.some((item) => item.product.id === product.id && JSON.stringify(selectionsOf(product, item.params)) === signature);
+    if (!saved) {
+      this.wishlist.push({ itemId: `wish-${this.nextWishlistId++}`, product, params: { ...params, productId: product.id } });
+    }
+  }
+
+  wishlistItem(itemId: string | number): MockWishlistItem {
+    this.requireLogin();
+    const item = this.wishlist.find((entry) => entry.itemId === String(itemId));
+    if (!item) {
+      throw new ConnectorError('PRODUCT_NOT_FOUND', `Wishlist item ${itemId} does not exist`);
+    }
+    return item;
+  }
+
+  removeFromWishlist(itemId: string | number): void {
+    const item = this.wishlistItem(itemId);
+    this.wishlist = this.wishlist.filter((entry) => entry !== item);
+  }
+
+  // Cart rules apply (stock, options); the item stays saved when the add fails
+  moveToCart(itemId: string | number, qty?: number): void {
+    const item = this.wishlistItem(itemId);
+    this.add({ ...item.params, qty: qty ?? item.params.qty ?? 1 });
+    this.wishlist = this.wishlist.filter((entry) => entry !== item);
+  }
+
+  normalizeWishlist(): NormalizedWishlist {
+    this.requireLogin();
+    const items = this.wishlist.map((item) => ({
+      itemId: item.itemId,
+      productId: item.product.id,
+      sku: item.product.sku,
+      name: item.product.name,
+      qty: item.params.qty ?? 1,
+      price: item.product.price,
+      options: selectionsOf(item.product, item.params),
+      canMoveToCart: item.product.stock > 0 && missingFrom(item.product, item.params).length === 0
+    }));
+    return { items, itemCount: items.length, currency: this.currency, raw: { items: this.wishlist.map((item) => item.params) } };
+  }
+
+  normalize(): NormalizedCart {
+    const items: NormalizedCartItem[] = this.lines.map((line) => ({
+      itemId: line.itemId,
+      productId: line.product.id,
+      sku: line.product.sku,
+      name: line.product.name,
+      qty: line.qty,
+      unitPrice: line.product.price,
+      linePrice: line.product.price * line.qty,
+      options: line.options
+    }));
+    const subtotal = items.reduce((sum, item) => sum + item.linePrice, 0);
+    const coupons = this.options.coupons || { WELCOME10: 10 };
+    const discounts = this.appliedCoupons.map((code) => ({
+      label: `${code} (-${coupons[code]}%)`,
+      amount: Math.round(subtotal * coupons[code] / 100),
+      code
+    }));
+    const discount = discounts.reduce((sum, entry) => sum + entry.amount, 0);
+    return {
+      items,
+      itemCount: items.reduce((sum, item) => sum + item.qty, 0),
+      currency: this.currency,
+      totals: { subtotal, discount, grandTotal: Math.max(subtotal - discount, 0) },
+      coupons: [...this.appliedCoupons],
+      discounts,
+      raw: { lines: this.lines.map((line) => ({ ...line, product: line.product.id })), coupons: this.appliedCoupons }
+    };
+  }
+}
+
+/** Create an independent mock connector (own cart and catalog), e.g. one per test. */
+export function createMockConnector(options: MockConnectorOptions = {}): MockConnector {
+  const cartCRUD = new CartCRUD(options);
+
+  return {
+    name: 'mock',
+
+    async refreshCart(): Promise<void> {
+      console.log('[Scenaro] Refreshing mock cart...');
+    },
+
+    async listCart(): Promise<NormalizedCart> {
+      try {
+        await cartCRUD.begin('listCart');
+        return cartCRUD.normalize();
+      } catch (error) {
+        console.error('[Scenaro] Error listing cart:', error);
+        throw error;
+      }
+    },
+
+    async addToCart(params: CartAddParams): Promise<NormalizedCart> {
+      try {
+        await cartCRUD.begin('addToCart');
+        cartCRUD.add(params);
+        return cartCRUD.normalize();
+      } catch (error) {
+        console.error('[Scenaro] Error adding to cart:', error);
+        throw error;
+      }
+    },
+
+    async updateCart(params: { itemId: string | number; qty: number }): Promise<NormalizedCart> {
+      try {
+        await cartCRUD.begin('updateCart');
+        cartCRUD.updateQty(params.itemId, params.qty);
+        return cartCRUD.normalize();
+      } catch (error) {
+        console.error('[Scenaro] Error updating cart item:', error);
+        throw error;
+      }
+    },
+
+    async removeCart(params: { itemId: string | number }): Promise<NormalizedCart> {
+      try {
+        await cartCRUD.begin('removeCart');
+        cartCRUD.remove(params.itemId);
+        return cartCRUD.normalize();
+      } catch (error) {
+        console.error('[Scenaro] Error removing cart item:', error);
+        throw error;
+      }
+    },
+
+    async clearCart(onProgress?: (progress: CartProgress) => void): Promise<NormalizedCart> {
+      try {
+        await cartCRUD.begin('clearCart');
+        await cartCRUD.clear(onProgress);
+        return cartCRUD.normalize();
+      } catch (error) {
+        console.error('[Scenaro] Error clearing cart:', error);
+        throw error;
+      }
+    },
+
+    async applyCoupon(code: string): Promise<NormalizedCart> {
+      try {
+        await cartCRUD.begin('applyCoupon');
+        cartCRUD.applyCoupon(code);
+        return cartCRUD.normalize();
+      } catch (error) {
+        console.error('[Scenaro] Error applying coupon:', error);
+        throw error;
+      }
+    },
+
+    async removeCoupon(code?: string): Promise<NormalizedCart> {
+      try {
+        await cartCRUD.begin('removeCoupon');
+        cartCRUD.removeCoupon(code);
+        return cartCRUD.normalize();
+      } catch (error) {
+        console.error('[Scenaro] Error removing coupon:', error);
+        throw error;
+      }
+    },
+
+    async getProduct(query: ProductQuery): Promise<NormalizedProduct> {
+      try {
+        await cartCRUD.begin('getProduct');
+        return cartCRUD.normalizeProduct(cartCRUD.find(query));
+      } catch (error) {
+        console.error('[Scenaro] Error loading product:', error);
+        throw error;
+      }
+    },
+
+    async searchProducts(query: string, limit: number): Promise<NormalizedProduct[]> {
+      try {
+        await cartCRUD.begin('searchProducts');
+        return cartCRUD.search(query, limit).map((product) => cartCRUD.normalizeProduct(product));
+      } catch (error) {
+        console.error('[Scenaro] Error searching products:', error);
+        throw error;
+      }
+    },
+
+    async listWishlist(): Promise<NormalizedWishlist> {
+      try {
+        await cartCRUD.begin('listWishlist');
+        return cartCRUD.normalizeWishlist();
+      } catch (error) {
+        console.error('[Scenaro] Error listing wishlist:', error);
+        throw error;
+      }
+    },
+
+    async addToWishlist(params: CartAddParams): Promise<NormalizedWishlist> {
+      try {
+        await cartCRUD.begin('addToWishlist');
+        cartCRUD.addToWishlist(params);
+        return cartCRUD.normalizeWishlist();
+      } catch (error) {
+        console.error('[Scenaro] Error adding to wishlist:', error);
+        throw error;
+      }
+    },
+
+    async removeFromWishlist(params: { itemId: string | number }): Promise<NormalizedWishlist> {
+      try {
+        await cartCRUD.begin('removeFromWishlist');
+        cartCRUD.removeFromWishlist(params.itemId);
+        return cartCRUD.normalizeWishlist();
+      } catch (error) {
+        console.error('[Scenaro] Error removing wishlist item:', error);
+        throw error;
+      }
+    },
+
+    async moveWishlistToCart(params: { itemId: string | number; qty?: number }): Promise<{ wishlist: NormalizedWishlist; cart: NormalizedCart }> {
+      try {
+        await cartCRUD.begin('moveWishlistToCart');
+        cartCRUD.moveToCart(params.itemId, params.qty);
+        return { wishlist: cartCRUD.normalizeWishlist(), cart: cartCRUD.normalize() };
+      } catch (error) {
+        console.error('[Scenaro] Error moving wishlist item to cart:', error);
+        throw error;
+      }
+    },
+
+    // Injected failures and latency apply per operation (addToCart, updateCart, removeCart)
+    async batchCart(operations: CartOperation[], onProgress?: (progress: CartProgress) => void): Promise<CartBatchResult> {
+      const results = await runCartOperations(operations, async (operation) => {
+        if (operation.op === 'add') {
+          await cartCRUD.begin('addToCart');
+          cartCRUD.add(operation.data);
+        } else if (operation.op === 'update') {
+          await cartCRUD.begin('updateCart');
+          cartCRUD.updateQty(operation.data.itemId, operation.data.qty);
+        } else {
+          await cartCRUD.begin('removeCart');
+          cartCRUD.remove(operation.data.itemId);
+        }
+      }, onProgress);
+      return { cart: cartCRUD.normalize(), results };
+    },
+
+    async watchCart(listener: (cart: NormalizedCart) => void): Promise<() => void> {
+      return cartCRUD.watch(listener);
+    },
+
+    setLatency(ms: number): void {
+      cartCRUD.latencyMs = ms;
+    },
+
+    failNext(operation: MockOperation, code: CartErrorCode, message?: string): void {
+      cartCRUD.failNext(operation, code, message);
+    },
+
+    setStock(productId: string, stock: number): void {
+      cartCRUD.setStock(productId, stock);
+    },
+
+    hostAdd(productId: string, qty = 1): void {
+      cartCRUD.add({ productId, qty });
+      cartCRUD.notify();
+    },
+
+    setLoggedIn(loggedIn: boolean): void {
+      cartCRUD.loggedIn = loggedIn;
+    },
+
+    reset(): void {
+      cartCRUD.reset();
+    }
+  };
+}
+
+export const MockConnector = createMockConnector();
+
+// Entry point used by the widget loader (connectors/{name}.js must export connector)
+export const connector = MockConnector;
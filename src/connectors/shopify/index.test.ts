@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CommerceEngine } from '../../engines/commerce';
+import { ShopifyConnector } from './index';
+
+// Ajax Cart API double: a cart keyed by variant id
+function ajaxCart() {
+  const items = new Map<number, number>();
+  const cart = () => ({
+    items: [...items].map(([id, quantity]) => ({
+      key: `${id}:abc`,
+      id,
+      product_id: id + 1000,
+      variant_id: id,
+      product_title: `Product ${id}`,
+      quantity,
+      final_price: 2500,
+      final_line_price: 2500 * quantity,
+      url: `/products/product-${id}`
+    })),
+    item_count: [...items.values()].reduce((sum, qty) => sum + qty, 0),
+    currency: 'EUR',
+    items_subtotal_price: 0,
+    total_discount: 0,
+    total_price: 0
+  });
+  const respond = (status: number, body: any) => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+  return vi.fn(async (url: string, init: RequestInit = {}) => {
+    const path = new URL(url, 'https://shop.test').pathname;
+    const body = init.body ? JSON.parse(String(init.body)) : {};
+    if (path === '/cart/add.js') {
+      const [{ id, quantity }] = body.items;
+      if (id === 404) {
+        return respond(422, { status: 422, message: 'Cart Error', description: 'The product is already sold out.' });
+      }
+      items.set(id, (items.get(id) ?? 0) + quantity);
+      return respond(200, { items: body.items });
+    }
+    if (path === '/cart/change.js') {
+      const id = Number(String(body.id).split(':')[0]);
+      if (body.quantity === 0) items.delete(id);
+      else items.set(id, body.quantity);
+    }
+    return respond(200, cart());
+  });
+}
+
+describe('Shopify connector', () => {
+  let fetchMock: ReturnType<typeof ajaxCart>;
+  let refreshed: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = ajaxCart();
+    vi.stubGlobal('fetch', fetchMock);
+    refreshed = vi.fn();
+    document.addEventListener('cart:refresh', refreshed);
+  });
+
+  afterEach(() => {
+    document.removeEventListener('cart:refresh', refreshed);
+    vi.unstubAllGlobals();
+  });
+
+  it('adds, updates and removes items through the Ajax Cart API', async () => {
+    const added = await ShopifyConnector.addToCart!({ productId: '11', qty: 2 });
+    expect(added.items).toEqual([expect.objectContaining({ itemId: '11:abc', productId: '1011', variantId: '11', qty: 2, unitPrice: 2500 })]);
+    expect(added.currency).toBe('EUR');
+
+    const updated = await ShopifyConnector.updateCart!({ itemId: '11:abc', qty: 3 });
+    expect(updated.itemCount).toBe(3);
+
+    const removed = await ShopifyConnector.removeCart!({ itemId: '11:abc' });
+    expect(removed.items).toEqual([]);
+    expect(refreshed).toHaveBeenCalledTimes(3);
+  });
+
+  it('maps Ajax Cart API errors', async () => {
+    await expect(ShopifyConnector.addToCart!({ productId: '404' })).rejects.toMatchObject({ code: 'OUT_OF_STOCK' });
+  });
+
+  it('refreshes the theme once after a fallback batch', async () => {
+    const engine = new CommerceEngine();
+    engine.setConnector(ShopifyConnector);
+
+    const result = await engine.handleCartRequest({
+      type: 'SCENARO_CART_BATCH_REQUEST',
+      requestId: 'batch-1',
+      data: { operations: [{ op: 'add', data: { productId: '21' } }, { op: 'add', data: { productId: '22' } }] }
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.itemCount).toBe(2);
+    expect(refreshed).toHaveBeenCalledTimes(1);
+  });
+});
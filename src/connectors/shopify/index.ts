@@ -0,0 +1,437 @@
+import { ConnectorError } from '../../errors';
+import { CartAddParams, CartCallOptions, CartErrorCode, Connector, NormalizedCart, NormalizedCartItem, NormalizedProduct, ProductOption, ProductQuery, ProductVariant } from '../../types';
+
+declare global {
+  interface Window {
+    Shopify?: any;
+  }
+}
+
+/** Theme cart drawer custom element (Dawn and derived themes) */
+interface ShopifyCartDrawer extends HTMLElement {
+  renderContents?(parsedState: any): void;
+  getSectionsToRender?(): Array<{ id: string }>;
+}
+
+// /cart.js object -> NormalizedCart (Shopify amounts are already in minor units)
+function normalizeCart(cart: any): NormalizedCart {
+  const items: NormalizedCartItem[] = (cart?.items || []).map((item: any) => ({
+    itemId: String(item.key),
+    productId: String(item.product_id),
+    variantId: String(item.variant_id ?? item.id),
+    sku: item.sku || undefined,
+    name: item.product_title || item.title,
+    qty: item.quantity,
+    unitPrice: item.final_price ?? item.price,
+    linePrice: item.final_line_price ?? item.line_price,
+    imageUrl: item.image || undefined,
+    url: item.url,
+    options: (item.options_with_values || [])
+      .filter((option: any) => option.name !== 'Title')
+      .map((option: any) => ({ label: String(option.name), value: String(option.value) }))
+  }));
+
+  return {
+    items,
+    itemCount: cart?.item_count ?? items.reduce((sum, item) => sum + item.qty, 0),
+    currency: cart?.currency || window.Shopify?.currency?.active || null,
+    totals: {
+      subtotal: cart?.items_subtotal_price ?? 0,
+      discount: cart?.total_discount ?? 0,
+      grandTotal: cart?.total_price ?? 0
+    },
+    coupons: appliedCodes(cart),
+    discounts: discountsOf(cart),
+    raw: cart
+  };
+}
+
+// Discount codes the cart applies (inapplicable codes stay listed with applicable: false)
+function appliedCodes(cart: any): string[] {
+  return (cart?.discount_codes || [])
+    .filter((discount: any) => discount.applicable !== false)
+    .map((discount: any) => String(discount.code));
+}
+
+// Cart-level and line-level discount applications, summed by title
+function discountsOf(cart: any): Array<{ label: string; amount: number; code?: string }> {
+  const byTitle = new Map<string, number>();
+  const add = (title: string, amount: number) => byTitle.set(title, (byTitle.get(title) ?? 0) + amount);
+  for (const application of cart?.cart_level_discount_applications || []) {
+    add(String(application.title), application.total_allocated_amount ?? 0);
+  }
+  for (const item of cart?.items || []) {
+    for (const allocation of item.line_level_discount_allocations || []) {
+      add(String(allocation.discount_application?.title ?? 'Discount'), allocation.amount ?? 0);
+    }
+  }
+  const codes = appliedCodes(cart);
+  return [...byTitle].map(([label, amount]) => {
+    // Code discounts are titled with their code
+    const code = codes.find((entry) => entry.toLowerCase() === label.toLowerCase());
+    return { label, amount, ...(code && { code }) };
+  });
+}
+
+// Predictive search returns at most 10 products
+const MAX_SUGGESTIONS = 10;
+
+// Product JSON image urls are protocol-relative (//cdn.shopify.com/...)
+function absoluteUrl(url: string | null | undefined): string | undefined {
+  if (!url) return undefined;
+  return url.startsWith('//') ? `https:${url}` : url;
+}
+
+// /products/{handle}.js object -> NormalizedProduct (options and selections are keyed by option name)
+function normalizeProduct(product: any): NormalizedProduct {
+  const names: string[] = (product.options || []).map((option: any) => (typeof option === 'string' ? option : option.name));
+  const variants: ProductVariant[] = (product.variants || []).map((variant: any) => ({
+    variantId: String(variant.id),
+    sku: variant.sku || undefined,
+    price: variant.price,
+    inStock: variant.available !== false,
+    selection: Object.fromEntries(names.map((name, index) => [name, String(variant.options?.[index] ?? variant[`option${index + 1}`])]))
+  }));
+  // Products without options have a single "Title: Default Title" option
+  const defaultOnly = variants.length === 1 && names.length === 1 && names[0] === 'Title';
+  const options: ProductOption[] = defaultOnly ? [] : names.map((name, index) => ({
+    id: name,
+    label: name,
+    values: ((product.options[index]?.values as string[]) || []).map((value) => ({
+      id: String(value),
+      label: String(value),
+      inStock: variants.some((variant) => variant.inStock && variant.selection[name] === String(value))
+    }))
+  }));
+  const compareAt = product.compare_at_price ?? 0;
+
+  return {
+    productId: String(product.id),
+    handle: product.handle,
+    name: product.title,
+    url: product.url || `/products/${product.handle}`,
+    imageUrl: absoluteUrl(product.featured_image),
+    currency: window.Shopify?.currency?.active || null,
+    price: product.price,
+    ...(compareAt > product.price && { regularPrice: compareAt }),
+    inStock: product.available !== false,
+    options,
+    variants,
+    raw: product
+  };
+}
+
+// Predictive search product -> NormalizedProduct (decimal prices, no variants)
+function normalizeSuggestion(product: any): NormalizedProduct {
+  const price = Math.round(Number(product.price ?? 0) * 100);
+  const compareAt = Math.round(Number(product.compare_at_price_max ?? 0) * 100);
+  return {
+    productId: String(product.id),
+    handle: product.handle,
+    name: product.title,
+    url: product.url,
+    imageUrl: absoluteUrl(product.featured_image?.url || product.image),
+    currency: window.Shopify?.currency?.active || null,
+    price: Number.isFinite(price) ? price : 0,
+    ...(compareAt > price && { regularPrice: compareAt }),
+    inStock: product.available !== false,
+    raw: product
+  };
+}
+
+// Ajax Cart API status + description -> error code
+function errorCode(status: number, message: string): CartErrorCode {
+  if (status === 404 || /cannot find variant|not found/i.test(message)) return 'PRODUCT_NOT_FOUND';
+  if (/sold out|out of stock|only .* available|all \d+ .* in your cart/i.test(message)) return 'OUT_OF_STOCK';
+  if (status === 422 || /quantity/i.test(message)) return 'INVALID_QTY';
+  if (status === 401 || status === 403) return 'SESSION_EXPIRED';
+  return 'UNKNOWN';
+}
+
+class CartCRUD {
+  // Storefront root (handles localized markets, e.g. /fr/)
+  root(): string {
+    const root = window.Shopify?.routes?.root || '/';
+    return root.endsWith('/') ? root : `${root}/`;
+  }
+
+  // Call the Ajax Cart API and parse the JSON response
+  async request(path: string, body?: Record<string, any>): Promise<any> {
+    const response = await fetch(`${this.root()}${path}`, {
+      method: body ? 'POST' : 'GET',
+      credentials: 'same-origin',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        'X-Requested-With': 'XMLHttpRequest'
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      // Shopify errors: { status, message, description }
+      const errorBody = await response.json().catch(() => null);
+      const errorMsg = errorBody?.description || errorBody?.message || response.statusText || 'Unknown error';
+      throw new ConnectorError(errorCode(response.status, errorMsg), errorMsg, { status: response.status });
+    }
+
+    return response.json();
+  }
+
+  // Refresh the theme's cart drawer / cart icon
+  async refreshDrawer(cart: any): Promise<void> {
+    try {
+      const drawer = document.querySelector('cart-drawer') as ShopifyCartDrawer | null;
+      if (drawer?.renderContents && drawer.getSectionsToRender) {
+        const sectionIds = drawer.getSectionsToRender().map((section) => section.id);
+        const sections = await fetch(`${this.root()}?sections=${sectionIds.join(',')}`, {
+          credentials: 'same-origin'
+        }).then((response) => response.json());
+        drawer.classList.remove('is-empty');
+        drawer.renderContents({ ...cart, sections });
+      }
+
+      // Generic hooks listened to by most themes and apps
+      document.dispatchEvent(new CustomEvent('cart:refresh', { bubbles: true, detail: { cart } }));
+      document.dispatchEvent(new CustomEvent('cart:updated', { bubbles: true, detail: { cart } }));
+    } catch (error) {
+      console.warn('[Scenaro] Error refreshing Shopify cart drawer:', error);
+    }
+  }
+
+  // LIST
+  // Returns the /cart.js object (items, item_count, total_price, currency, etc.)
+  async list(): Promise<any> {
+    const cart = await this.request('cart.js');
+    console.log('[Scenaro] 🛒 cart:', cart);
+    return cart;
+  }
+
+  // ADD (productId = variant id)
+  // refresh = false skips the drawer refresh (the engine refreshes once after a batch)
+  async add({ productId, qty = 1 }: CartAddParams, refresh = true): Promise<any> {
+    await this.request('cart/add.js', {
+      items: [{ id: Number(productId), quantity: qty }]
+    });
+    console.log(`[Scenaro] ✅ Added variant ${productId} (qty ${qty})`);
+    const cart = await this.list();
+    if (refresh) {
+      await this.refreshDrawer(cart);
+    }
+    return cart;
+  }
+
+  // UPDATE qty (itemId = cart.items[n].key)
+  async updateQty({ itemId, qty }: { itemId: string | number; qty: number }, refresh = true): Promise<any> {
+    const cart = await this.request('cart/change.js', { id: String(itemId), quantity: qty });
+    console.log(`[Scenaro] ✅ Updated item ${itemId} qty -> ${qty}`);
+    if (refresh) {
+      await this.refreshDrawer(cart);
+    }
+    return cart;
+  }
+
+  // DELETE item (itemId = cart.items[n].key)
+  async remove({ itemId }: { itemId: string | number }, refresh = true): Promise<any> {
+    const cart = await this.request('cart/change.js', { id: String(itemId), quantity: 0 });
+    console.log(`[Scenaro] ✅ Removed item ${itemId}`);
+    if (refresh) {
+      await this.refreshDrawer(cart);
+    }
+    return cart;
+  }
+
+  // COUPONS: cart/update.js replaces the list of discount codes
+  async setDiscountCodes(codes: string[]): Promise<any> {
+    const cart = await this.request('cart/update.js', { discount: codes.join(',') });
+    await this.refreshDrawer(cart);
+    return cart;
+  }
+
+  async applyCoupon(code: string): Promise<any> {
+    const before = await this.list();
+    const current: string[] = (before.discount_codes || []).map((discount: any) => String(discount.code));
+    if (current.some((entry) => entry.toLowerCase() === code.toLowerCase())) {
+      return before;
+    }
+    const cart = await this.setDiscountCodes([...current, code]);
+    const added = (cart.discount_codes || []).find((discount: any) => String(discount.code).toLowerCase() === code.toLowerCase());
+    if (!added || added.applicable === false) {
+      // Shopify keeps refused codes in the cart: take it out again
+      await this.setDiscountCodes(current);
+      throw new ConnectorError('COUPON_INVALID', `Discount code "${code}" cannot be applied to this cart`, { couponCode: code });
+    }
+    console.log(`[Scenaro] ✅ Applied coupon ${code}`);
+    return cart;
+  }
+
+  async removeCoupon(code?: string): Promise<any> {
+    const current: string[] = (await this.list()).discount_codes?.map((discount: any) => String(discount.code)) || [];
+    const remaining = code ? current.filter((entry) => entry.toLowerCase() !== code.toLowerCase()) : [];
+    const cart = await this.setDiscountCodes(remaining);
+    console.log('[Scenaro] ✅ Coupon removed');
+    return cart;
+  }
+
+  // CATALOG: product JSON by handle
+  async product(handle: string): Promise<any> {
+    return this.request(`products/${encodeURIComponent(handle)}.js`);
+  }
+
+  // Predictive search (fields: title, variants.sku, ...)
+  async suggest(query: string, limit: number, fields?: string): Promise<any[]> {
+    const params = new URLSearchParams({
+      q: query,
+      'resources[type]': 'product',
+      'resources[limit]': String(Math.min(limit, MAX_SUGGESTIONS))
+    });
+    if (fields) {
+      params.set('resources[options][fields]', fields);
+    }
+    const response = await this.request(`search/suggest.json?${params}`);
+    return response?.resources?.results?.products || [];
+  }
+
+  // No lookup by SKU: search variant SKUs, then confirm on the product JSON
+  async productBySku(sku: string): Promise<any> {
+    for (const candidate of await this.suggest(sku, MAX_SUGGESTIONS, 'variants.sku')) {
+      const product = await this.product(candidate.handle);
+      if ((product.variants || []).some((variant: any) => variant.sku === sku)) {
+        return product;
+      }
+    }
+    throw new ConnectorError('PRODUCT_NOT_FOUND', `No product with SKU ${sku}`, { sku });
+  }
+
+  // CLEAR cart (native endpoint)
+  async clear(): Promise<any> {
+    const cart = await this.request('cart/clear.js', {});
+    console.log('[Scenaro] 🧹 Cart cleared');
+    await this.refreshDrawer(cart);
+    return cart;
+  }
+}
+
+const cartCRUD = new CartCRUD();
+
+export const ShopifyConnector: Connector = {
+  name: 'shopify',
+
+  async refreshCart(): Promise<void> {
+    try {
+      console.log('[Scenaro] Refreshing Shopify cart...');
+      const cart = await cartCRUD.list();
+      await cartCRUD.refreshDrawer(cart);
+    } catch (error) {
+      console.error('[Scenaro] Error refreshing Shopify cart:', error);
+    }
+  },
+
+  async listCart(): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.list());
+    } catch (error) {
+      console.error('[Scenaro] Error listing cart:', error);
+      throw error;
+    }
+  },
+
+  async addToCart(params: CartAddParams, options?: CartCallOptions): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.add(params, !options?.skipRefresh));
+    } catch (error) {
+      console.error('[Scenaro] Error adding to cart:', error);
+      throw error;
+    }
+  },
+
+  async updateCart(params: { itemId: string | number; qty: number }, options?: CartCallOptions): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.updateQty(params, !options?.skipRefresh));
+    } catch (error) {
+      console.error('[Scenaro] Error updating cart item:', error);
+      throw error;
+    }
+  },
+
+  async removeCart(params: { itemId: string | number }, options?: CartCallOptions): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.remove(params, !options?.skipRefresh));
+    } catch (error) {
+      console.error('[Scenaro] Error removing cart item:', error);
+      throw error;
+    }
+  },
+
+  async clearCart(): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.clear());
+    } catch (error) {
+      console.error('[Scenaro] Error clearing cart:', error);
+      throw error;
+    }
+  },
+
+  async applyCoupon(code: string): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.applyCoupon(code));
+    } catch (error) {
+      console.error('[Scenaro] Error applying coupon:', error);
+      throw error;
+    }
+  },
+
+  async removeCoupon(code?: string): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.removeCoupon(code));
+    } catch (error) {
+      console.error('[Scenaro] Error removing coupon:', error);
+      throw error;
+    }
+  },
+
+  // The storefront has no product lookup by id: use the handle (or a SKU)
+  async getProduct({ sku, productId, handle }: ProductQuery): Promise<NormalizedProduct> {
+    try {
+      if (handle) {
+        return normalizeProduct(await cartCRUD.product(handle));
+      }
+      if (sku) {
+        return normalizeProduct(await cartCRUD.productBySku(sku));
+      }
+      throw new ConnectorError('INVALID_REQUEST', 'Shopify catalog lookups need a handle or sku', { productId });
+    } catch (error) {
+      console.error('[Scenaro] Error loading product:', error);
+      throw error;
+    }
+  },
+
+  async searchProducts(query: string, limit: number): Promise<NormalizedProduct[]> {
+    try {
+      return (await cartCRUD.suggest(query, limit)).map(normalizeSuggestion);
+    } catch (error) {
+      console.error('[Scenaro] Error searching products:', error);
+      throw error;
+    }
+  },
+
+  // No cart observable on Shopify: watch the theme's Ajax Cart API calls and re-read /cart.js
+  async watchCart(listener: (cart: NormalizedCart) => void): Promise<() => void> {
+    if (typeof PerformanceObserver === 'undefined') {
+      return () => {};
+    }
+    const observer = new PerformanceObserver((entries) => {
+      const mutated = entries.getEntries().some((entry) => /\/cart\/(add|change|update|clear)(\.js)?(\?|$)/.test(entry.name));
+      if (mutated) {
+        cartCRUD.list()
+          .then((cart) => listener(normalizeCart(cart)))
+          .catch((error) => console.warn('[Scenaro] Error reading changed cart:', error));
+      }
+    });
+    observer.observe({ type: 'resource' });
+    return () => observer.disconnect();
+  }
+};
+
+// Entry point used by the widget loader (connectors/{name}.js must export connector)
+export const connector = ShopifyConnector;
@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CommerceEngine } from '../../engines/commerce';
+import { Connector } from '../../types';
+
+// Store API double: a cart keyed by product id, nonces checked on writes
+function storeApi(options: { nonce?: string } = {}) {
+  const nonce = options.nonce ?? 'nonce-1';
+  const items = new Map<string, number>();
+  const cart = () => ({
+    items: [...items].map(([id, quantity]) => ({
+      key: `key-${id}`,
+      id: Number(id),
+      name: `Product ${id}`,
+      quantity,
+      prices: { price: '1000' },
+      totals: { line_total: String(1000 * quantity) }
+    })),
+    items_count: [...items.values()].reduce((sum, qty) => sum + qty, 0),
+    totals: { currency_code: 'EUR', total_items: '0', total_price: '0' },
+    coupons: []
+  });
+  const respond = (status: number, body: any) => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', Nonce: nonce }
+  });
+
+  return vi.fn(async (url: string, init: RequestInit = {}) => {
+    const path = new URL(url, 'https://shop.test').pathname.replace('/wp-json/wc/store/v1', '');
+    const headers = init.headers as Record<string, string>;
+    const body = init.body ? JSON.parse(String(init.body)) : {};
+    if (init.method !== 'GET' && headers.Nonce !== nonce) {
+      return respond(401, { code: 'woocommerce_rest_missing_nonce', message: 'Missing nonce' });
+    }
+    if (path === '/cart/add-item') {
+      if (body.id === 404) {
+        return respond(400, { code: 'woocommerce_rest_product_out_of_stock', message: 'Out of stock' });
+      }
+      items.set(String(body.id), (items.get(String(body.id)) ?? 0) + body.quantity);
+    } else if (path === '/cart/update-item') {
+      items.set(body.key.replace('key-', ''), body.quantity);
+    } else if (path === '/cart/remove-item') {
+      items.delete(body.key.replace('key-', ''));
+    }
+    return respond(200, cart());
+  });
+}
+
+describe('WooCommerce connector', () => {
+  let trigger: ReturnType<typeof vi.fn>;
+  let connector: Connector;
+
+  beforeEach(async () => {
+    // Fresh module: the nonce and cart token live in the connector's module state
+    vi.resetModules();
+    connector = (await import('./index')).WooCommerceConnector;
+    trigger = vi.fn();
+    vi.stubGlobal('jQuery', vi.fn(() => ({ trigger })));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('primes the nonce from GET /cart before the first write', async () => {
+    const fetch = storeApi();
+    vi.stubGlobal('fetch', fetch);
+
+    const cart = await connector.addToCart!({ productId: '12', qty: 2 });
+
+    expect(fetch.mock.calls.map(([url, init]) => `${init?.method} ${url}`)).toEqual([
+      'GET /wp-json/wc/store/v1/cart',
+      'POST /wp-json/wc/store/v1/cart/add-item'
+    ]);
+    expect(cart.items).toEqual([expect.objectContaining({ itemId: 'key-12', productId: '12', qty: 2, unitPrice: 1000 })]);
+    expect(trigger).toHaveBeenCalledWith('added_to_cart', expect.anything());
+  });
+
+  it('retries once with the nonce returned by a refused write', async () => {
+    vi.stubGlobal('wcBlocksMiddlewareConfig', { storeApiNonce: 'stale' });
+    vi.stubGlobal('fetch', storeApi({ nonce: 'nonce-2' }));
+    const fetch = vi.mocked(globalThis.fetch);
+
+    await connector.updateCart!({ itemId: 'key-12', qty: 1 });
+
+    const writes = fetch.mock.calls.filter(([, init]) => init?.method === 'POST');
+    expect(writes).toHaveLength(2);
+    expect((writes[1][1]!.headers as Record<string, string>).Nonce).toBe('nonce-2');
+  });
+
+  it('maps Store API errors to cart error codes', async () => {
+    vi.stubGlobal('fetch', storeApi({ nonce: 'nonce-2' }));
+    await expect(connector.addToCart!({ productId: '404' })).rejects.toMatchObject({ code: 'OUT_OF_STOCK' });
+  });
+
+  it('refreshes the mini-cart once after a fallback batch, with added_to_cart', async () => {
+    vi.stubGlobal('fetch', storeApi({ nonce: 'nonce-2' }));
+    const engine = new CommerceEngine();
+    engine.setConnector(connector);
+
+    const result = await engine.handleCartRequest({
+      type: 'SCENARO_CART_BATCH_REQUEST',
+      requestId: 'batch-1',
+      data: { operations: [{ op: 'add', data: { productId: '21' } }, { op: 'add', data: { productId: '22' } }] }
+    });
+
+    expect(result.success).toBe(true);
+    expect(trigger.mock.calls.filter(([name]) => name === 'wc_fragment_refresh')).toHaveLength(1);
+    expect(trigger.mock.calls.filter(([name]) => name === 'added_to_cart')).toHaveLength(1);
+  });
+});
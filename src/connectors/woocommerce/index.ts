@@ -0,0 +1,328 @@
+import { ConnectorError } from '../../errors';
+import { CartAddParams, CartCallOptions, CartErrorCode, Connector, NormalizedCart, NormalizedCartItem } from '../../types';
+
+declare global {
+  interface Window {
+    jQuery?: any;
+    wpApiSettings?: { root?: string; nonce?: string };
+    wcBlocksMiddlewareConfig?: { storeApiNonce?: string };
+    wc_add_to_cart_params?: any;
+    woocommerce_params?: any;
+  }
+}
+
+// Store API amounts are strings in the currency's minor unit
+function toAmount(value: any): number {
+  const amount = parseInt(value ?? '0', 10);
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+// Store API cart -> NormalizedCart
+function normalizeCart(cart: any): NormalizedCart {
+  const items: NormalizedCartItem[] = (cart?.items || []).map((item: any) => ({
+    itemId: String(item.key),
+    productId: String(item.id),
+    variantId: item.type === 'variation' ? String(item.id) : undefined,
+    sku: item.sku || undefined,
+    name: item.name,
+    qty: item.quantity,
+    unitPrice: toAmount(item.prices?.price),
+    linePrice: toAmount(item.totals?.line_total),
+    imageUrl: item.images?.[0]?.src,
+    url: item.permalink,
+    options: (item.variation || []).map((variation: any) => ({
+      label: String(variation.attribute),
+      value: String(variation.value)
+    }))
+  }));
+  const totals = cart?.totals || {};
+
+  return {
+    items,
+    itemCount: cart?.items_count ?? items.reduce((sum, item) => sum + item.qty, 0),
+    currency: totals.currency_code || null,
+    totals: {
+      subtotal: toAmount(totals.total_items),
+      discount: toAmount(totals.total_discount),
+      tax: toAmount(totals.total_tax),
+      shipping: toAmount(totals.total_shipping),
+      grandTotal: toAmount(totals.total_price)
+    },
+    coupons: (cart?.coupons || []).map((coupon: any) => String(coupon.code)),
+    discounts: (cart?.coupons || []).map((coupon: any) => ({
+      label: String(coupon.code),
+      amount: toAmount(coupon.totals?.total_discount),
+      code: String(coupon.code)
+    })),
+    raw: cart
+  };
+}
+
+// Store API error code (woocommerce_rest_*) -> error code
+function errorCode(status: number, code: string): CartErrorCode {
+  if (/coupon/.test(code)) return 'COUPON_INVALID';
+  if (/stock|not_purchasable/.test(code)) return 'OUT_OF_STOCK';
+  if (/quantity/.test(code)) return 'INVALID_QTY';
+  if (/variation/.test(code)) return 'MISSING_OPTIONS';
+  if (/invalid_product|invalid_key|product_does_not_exist/.test(code) || status === 404) return 'PRODUCT_NOT_FOUND';
+  if (/nonce/.test(code) || status === 401 || status === 403) return 'SESSION_EXPIRED';
+  return 'UNKNOWN';
+}
+
+class CartCRUD {
+  // Store API session: nonce + cart token are refreshed from every response
+  private nonce: string | null = null;
+  private cartToken: string | null = null;
+  // Adds made without refresh (batches): the next refresh fires added_to_cart for them
+  private pendingAdded = false;
+
+  // Store API base (respects sites where the REST root is not /wp-json/)
+  baseUrl(): string {
+    const root = window.wpApiSettings?.root || '/wp-json/';
+    return `${root.endsWith('/') ? root : `${root}/`}wc/store/v1`;
+  }
+
+  // Nonce exposed by WooCommerce Blocks; falls back to the one returned by the last response
+  getNonce(): string | null {
+    return this.nonce || window.wcBlocksMiddlewareConfig?.storeApiNonce || null;
+  }
+
+  // Classic themes don't expose a nonce: GET /cart returns one in its Nonce header
+  async primeNonce(): Promise<void> {
+    if (!this.getNonce()) {
+      await this.request('/cart');
+    }
+  }
+
+  // Call the Store API and parse the JSON response
+  // Writes need a nonce; a refused nonce is retried once with the one returned by the error response
+  async request(path: string, method: 'GET' | 'POST' | 'DELETE' = 'GET', body?: Record<string, any>, retried = false): Promise<any> {
+    if (method !== 'GET') {
+      await this.primeNonce();
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json'
+    };
+    const nonce = this.getNonce();
+    if (nonce) {
+      headers['Nonce'] = nonce;
+    }
+    if (this.cartToken) {
+      headers['Cart-Token'] = this.cartToken;
+    }
+
+    const response = await fetch(`${this.baseUrl()}${path}`, {
+      method,
+      credentials: 'same-origin',
+      headers,
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    this.nonce = response.headers.get('Nonce') || response.headers.get('X-WC-Store-API-Nonce') || this.nonce;
+    this.cartToken = response.headers.get('Cart-Token') || this.cartToken;
+
+    if (!response.ok) {
+      // Store API errors: { code, message, data: { status } }
+      const errorBody = await response.json().catch(() => null);
+      const refused = response.status === 401 || response.status === 403 || /nonce/.test(errorBody?.code || '');
+      if (method !== 'GET' && refused && !retried && this.nonce && this.nonce !== nonce) {
+        console.warn('[Scenaro] ⚠️ Store API nonce refused, retrying with the new one');
+        return this.request(path, method, body, true);
+      }
+      const errorMsg = errorBody?.message || response.statusText || 'Unknown error';
+      throw new ConnectorError(errorCode(response.status, errorBody?.code || ''), errorMsg, {
+        status: response.status,
+        platformCode: errorBody?.code
+      });
+    }
+
+    return response.json();
+  }
+
+  // Refresh mini-cart fragments (classic themes listen to these jQuery events)
+  refreshFragments(added = false): void {
+    const $ = window.jQuery;
+    if (!$) return;
+    added = added || this.pendingAdded;
+    this.pendingAdded = false;
+    try {
+      $(document.body).trigger('wc_fragment_refresh');
+      if (added) {
+        // Same signature as WooCommerce's own trigger: fragments, cart_hash, $button
+        $(document.body).trigger('added_to_cart', [{}, '', $()]);
+      }
+    } catch (error) {
+      console.warn('[Scenaro] Error refreshing WooCommerce fragments:', error);
+    }
+  }
+
+  // LIST
+  // Returns the Store API cart object (items, totals, items_count, etc.)
+  async list(): Promise<any> {
+    const cart = await this.request('/cart');
+    console.log('[Scenaro] 🛒 cart:', cart);
+    return cart;
+  }
+
+  // ADD (productId = product or variation id)
+  // refresh = false skips the fragments refresh (the engine refreshes once after a batch)
+  async add({ productId, qty = 1 }: CartAddParams, refresh = true): Promise<any> {
+    const cart = await this.request('/cart/add-item', 'POST', { id: Number(productId), quantity: qty });
+    console.log(`[Scenaro] ✅ Added product ${productId} (qty ${qty})`);
+    if (refresh) {
+      this.refreshFragments(true);
+    } else {
+      this.pendingAdded = true;
+    }
+    return cart;
+  }
+
+  // UPDATE qty (itemId = cart.items[n].key)
+  async updateQty({ itemId, qty }: { itemId: string | number; qty: number }, refresh = true): Promise<any> {
+    const cart = await this.request('/cart/update-item', 'POST', { key: String(itemId), quantity: qty });
+    console.log(`[Scenaro] ✅ Updated item ${itemId} qty -> ${qty}`);
+    if (refresh) {
+      this.refreshFragments();
+    }
+    return cart;
+  }
+
+  // DELETE item (itemId = cart.items[n].key)
+  async remove({ itemId }: { itemId: string | number }, refresh = true): Promise<any> {
+    const cart = await this.request('/cart/remove-item', 'POST', { key: String(itemId) });
+    console.log(`[Scenaro] ✅ Removed item ${itemId}`);
+    if (refresh) {
+      this.refreshFragments();
+    }
+    return cart;
+  }
+
+  // COUPONS (apply-coupon / remove-coupon answer with the cart)
+  async applyCoupon(code: string): Promise<any> {
+    const cart = await this.request('/cart/apply-coupon', 'POST', { code });
+    console.log(`[Scenaro] ✅ Applied coupon ${code}`);
+    this.refreshFragments();
+    return cart;
+  }
+
+  // Without a code, DELETE /cart/coupons removes every applied coupon
+  async removeCoupon(code?: string): Promise<any> {
+    let cart: any;
+    if (code) {
+      cart = await this.request('/cart/remove-coupon', 'POST', { code });
+    } else {
+      await this.request('/cart/coupons', 'DELETE');
+      cart = await this.list();
+    }
+    console.log('[Scenaro] ✅ Coupon removed');
+    this.refreshFragments();
+    return cart;
+  }
+
+  // CLEAR cart (DELETE /cart/items removes every line item, then re-read the empty cart)
+  async clear(): Promise<any> {
+    await this.request('/cart/items', 'DELETE');
+    console.log('[Scenaro] 🧹 Cart cleared');
+    this.refreshFragments();
+    return this.list();
+  }
+}
+
+const cartCRUD = new CartCRUD();
+
+export const WooCommerceConnector: Connector = {
+  name: 'woocommerce',
+
+  async refreshCart(): Promise<void> {
+    try {
+      console.log('[Scenaro] Refreshing WooCommerce cart...');
+      cartCRUD.refreshFragments();
+    } catch (error) {
+      console.error('[Scenaro] Error refreshing WooCommerce cart:', error);
+    }
+  },
+
+  async listCart(): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.list());
+    } catch (error) {
+      console.error('[Scenaro] Error listing cart:', error);
+      throw error;
+    }
+  },
+
+  async addToCart(params: CartAddParams, options?: CartCallOptions): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.add(params, !options?.skipRefresh));
+    } catch (error) {
+      console.error('[Scenaro] Error adding to cart:', error);
+      throw error;
+    }
+  },
+
+  async updateCart(params: { itemId: string | number; qty: number }, options?: CartCallOptions): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.updateQty(params, !options?.skipRefresh));
+    } catch (error) {
+      console.error('[Scenaro] Error updating cart item:', error);
+      throw error;
+    }
+  },
+
+  async removeCart(params: { itemId: string | number }, options?: CartCallOptions): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.remove(params, !options?.skipRefresh));
+    } catch (error) {
+      console.error('[Scenaro] Error removing cart item:', error);
+      throw error;
+    }
+  },
+
+  async clearCart(): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.clear());
+    } catch (error) {
+      console.error('[Scenaro] Error clearing cart:', error);
+      throw error;
+    }
+  },
+
+  async applyCoupon(code: string): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.applyCoupon(code));
+    } catch (error) {
+      console.error('[Scenaro] Error applying coupon:', error);
+      throw error;
+    }
+  },
+
+  async removeCoupon(code?: string): Promise<NormalizedCart> {
+    try {
+      return normalizeCart(await cartCRUD.removeCoupon(code));
+    } catch (error) {
+      console.error('[Scenaro] Error removing coupon:', error);
+      throw error;
+    }
+  },
+
+  // Classic themes announce cart changes with jQuery events on body; re-read the Store API cart
+  async watchCart(listener: (cart: NormalizedCart) => void): Promise<() => void> {
+    const $ = window.jQuery;
+    if (!$) {
+      return () => {};
+    }
+    const events = 'added_to_cart removed_from_cart updated_cart_totals wc_fragments_refreshed';
+    const handler = () => {
+      cartCRUD.list()
+        .then((cart) => listener(normalizeCart(cart)))
+        .catch((error) => console.warn('[Scenaro] Error reading changed cart:', error));
+    };
+    $(document.body).on(events, handler);
+    return () => $(document.body).off(events, handler);
+  }
+};
+
+// Entry point used by the widget loader (connectors/{name}.js must export connector)
+export const connector = WooCommerceConnector;
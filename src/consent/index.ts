@@ -0,0 +1,199 @@
+import { ScenaroConsent, ScenaroConsentConfig, ScenaroConsentState } from '../types';
+
+declare global {
+  interface Window {
+    __tcfapi?: (command: string, version: number, callback: (...args: any[]) => void, parameter?: any) => void;
+    Cookiebot?: {
+      hasResponse?: boolean;
+      consent?: { necessary?: boolean; preferences?: boolean; statistics?: boolean; marketing?: boolean };
+    };
+    OnetrustActiveGroups?: string;
+  }
+}
+
+const NO_CONSENT: ScenaroConsentState = { functional: false, personalization: false, analytics: false, source: 'none' };
+
+/** How long open() waits for the CMP's first answer (TCF answers asynchronously) */
+const CMP_TIMEOUT_MS = 1000;
+
+// TCF v2 purposes: 1 store/access information on a device, 5-6 personalised content, 8 measure content performance
+function fromTcData(tcData: any): ScenaroConsentState {
+  if (tcData.gdprApplies === false) {
+    return { functional: true, personalization: true, analytics: true, source: 'tcf' };
+  }
+  const purposes = tcData.purpose?.consents || {};
+  return {
+    functional: !!purposes[1],
+    personalization: !!(purposes[1] && purposes[5] && purposes[6]),
+    analytics: !!purposes[8],
+    source: 'tcf'
+  };
+}
+
+// Cookiebot categories: preferences, statistics, marketing
+function readCookiebot(): ScenaroConsentState | null {
+  const cookiebot = window.Cookiebot;
+  if (!cookiebot?.consent || cookiebot.hasResponse === false) return null;
+  return {
+    functional: !!cookiebot.consent.preferences,
+    personalization: !!cookiebot.consent.marketing,
+    analytics: !!cookiebot.consent.statistics,
+    source: 'cookiebot'
+  };
+}
+
+// OneTrust groups: C0002 performance, C0003 functional, C0004 targeting
+function readOneTrust(): ScenaroConsentState | null {
+  const groups = window.OnetrustActiveGroups;
+  if (typeof groups !== 'string') return null;
+  const active = groups.split(',').filter(Boolean);
+  return {
+    functional: active.includes('C0003'),
+    personalization: active.includes('C0004'),
+    analytics: active.includes('C0002'),
+    source: 'onetrust'
+  };
+}
+
+function toConsent(answer: Partial<ScenaroConsent> | boolean, source: ScenaroConsentState['source']): ScenaroConsentState {
+  if (typeof answer === 'boolean') {
+    return { functional: answer, personalization: answer, analytics: answer, source };
+  }
+  return {
+    functional: !!answer.functional,
+    personalization: !!answer.personalization,
+    analytics: !!answer.analytics,
+    source
+  };
+}
+
+/**
+ * Tracks the shopper's consent from the host provider, TCF v2, Cookiebot or OneTrust.
+ * CMP updates are followed (listeners are notified) until destroy().
+ */
+export class ConsentManager {
+  private config: ScenaroConsentConfig;
+  private state: ScenaroConsentState = NO_CONSENT;
+  /** Set by setConsent(): host answer wins over CMP signals */
+  private hostState: ScenaroConsentState | null = null;
+  private listeners: Set<(state: ScenaroConsentState) => void> = new Set();
+  private started: Promise<void> | null = null;
+  private cleanups: Array<() => void> = [];
+
+  constructor(config: ScenaroConsentConfig) {
+    this.config = config;
+  }
+
+  get whenMissing(): 'block' | 'defer' {
+    return this.config.whenMissing ?? 'block';
+  }
+
+  /** Current consent (asks the provider, or waits briefly for the CMP's first answer). */
+  async resolve(): Promise<ScenaroConsentState> {
+    if (this.hostState) {
+      return this.hostState;
+    }
+    if (this.config.provider) {
+      try {
+        this.state = toConsent(await this.config.provider(), 'provider');
+      } catch (error) {
+        console.warn('[Scenaro] Consent provider failed, treating as no consent:', error);
+        this.state = NO_CONSENT;
+      }
+      return this.state;
+    }
+    if (!this.started) {
+      this.started = this.watchCmp();
+    }
+    await this.started;
+    return this.state;
+  }
+
+  /** Last known consent, without asking again */
+  current(): ScenaroConsentState {
+    return this.hostState || this.state;
+  }
+
+  set(consent: Partial<ScenaroConsent> | boolean): void {
+    this.hostState = toConsent(consent, 'host');
+    this.notify();
+  }
+
+  /** Called on every consent change; returns an unsubscribe function */
+  subscribe(listener: (state: ScenaroConsentState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  destroy(): void {
+    this.cleanups.forEach((cleanup) => cleanup());
+    this.cleanups = [];
+    this.listeners.clear();
+    this.started = null;
+  }
+
+  private update(state: ScenaroConsentState): void {
+    this.state = state;
+    if (!this.hostState) {
+      this.notify();
+    }
+  }
+
+  private notify(): void {
+    const state = this.current();
+    this.listeners.forEach((listener) => listener(state));
+  }
+
+  /** Read the CMP present on the page and follow its updates. Resolves on the first answer or after CMP_TIMEOUT_MS. */
+  private watchCmp(): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, CMP_TIMEOUT_MS);
+      const answered = (state: ScenaroConsentState) => {
+        this.update(state);
+        clearTimeout(timer);
+        resolve();
+      };
+
+      const tcfapi = window.__tcfapi;
+      if (typeof tcfapi === 'function') {
+        let listenerId: number | undefined;
+        tcfapi('addEventListener', 2, (tcData: any, success: boolean) => {
+          if (!success || !tcData) return;
+          listenerId = tcData.listenerId;
+          answered(fromTcData(tcData));
+        });
+        this.cleanups.push(() => {
+          if (listenerId !== undefined) tcfapi('removeEventListener', 2, () => {}, listenerId);
+        });
+        return;
+      }
+
+      const cookiebotHandler = () => {
+        const state = readCookiebot();
+        if (state) answered(state);
+      };
+      const oneTrustHandler = () => {
+        const state = readOneTrust();
+        if (state) answered(state);
+      };
+      const events: Array<[string, () => void]> = [
+        ['CookiebotOnConsentReady', cookiebotHandler],
+        ['CookiebotOnAccept', cookiebotHandler],
+        ['CookiebotOnDecline', cookiebotHandler],
+        ['OneTrustGroupsUpdated', oneTrustHandler]
+      ];
+      events.forEach(([name, handler]) => window.addEventListener(name, handler));
+      this.cleanups.push(() => events.forEach(([name, handler]) => window.removeEventListener(name, handler)));
+
+      const state = readCookiebot() || readOneTrust();
+      if (state) {
+        answered(state);
+      }
+    });
+  }
+}
+
+/** iframe allow attribute: microphone (voice) only with personalization consent */
+export function iframePermissions(consent: ScenaroConsentState | null): string {
+  return !consent || consent.personalization ? 'microphone *; autoplay *' : 'autoplay *';
+}
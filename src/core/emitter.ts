@@ -0,0 +1,61 @@
+import { ScenaroEventListener, ScenaroEventMap, ScenaroEventName, ScenaroWildcardListener } from '../types';
+
+type AnyListener = (data: any) => void;
+
+interface ListenerEntry {
+  callback: AnyListener;
+  once: boolean;
+}
+
+const WILDCARD = '*';
+
+/**
+ * Typed event emitter behind Scenaro.on / once / off.
+ * Each listener is called in its own try/catch so a throwing listener does not stop the others.
+ */
+export class ScenaroEmitter {
+  private listeners: Map<string, ListenerEntry[]> = new Map();
+
+  on<K extends ScenaroEventName>(event: K | '*', callback: ScenaroEventListener<K> | ScenaroWildcardListener, once = false): () => void {
+    const entries = this.listeners.get(event) ?? [];
+    entries.push({ callback: callback as AnyListener, once });
+    this.listeners.set(event, entries);
+    return () => this.off(event, callback);
+  }
+
+  off<K extends ScenaroEventName>(event: K | '*', callback: ScenaroEventListener<K> | ScenaroWildcardListener): void {
+    const entries = this.listeners.get(event);
+    if (!entries) return;
+    const index = entries.findIndex((entry) => entry.callback === callback);
+    if (index !== -1) {
+      entries.splice(index, 1);
+    }
+  }
+
+  /** Call the event's listeners, then wildcard listeners with { type, data }. */
+  emit<K extends ScenaroEventName>(event: K, data: ScenaroEventMap[K]): void {
+    this.dispatch(event, event, data);
+    this.dispatch(WILDCARD, event, { type: event, data });
+  }
+
+  clear(): void {
+    this.listeners.clear();
+  }
+
+  private dispatch(key: string, event: ScenaroEventName, arg: unknown): void {
+    const entries = this.listeners.get(key);
+    if (!entries?.length) return;
+    // Snapshot: listeners may add/remove listeners while we iterate
+    for (const entry of [...entries]) {
+      if (entry.once) {
+        const index = entries.indexOf(entry);
+        if (index !== -1) entries.splice(index, 1);
+      }
+      try {
+        entry.callback(arg);
+      } catch (error) {
+        console.error(`[Scenaro] Error in "${key === WILDCARD ? `* (${event})` : event}" listener:`, error);
+      }
+    }
+  }
+}
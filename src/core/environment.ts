@@ -0,0 +1,63 @@
+import { ScenaroEnvironment } from '../types';
+
+/** Production endpoints */
+export const DEFAULT_ENVIRONMENT: Required<ScenaroEnvironment> = {
+  embedUrl: 'https://embed.scenaro.io',
+  cdnUrl: 'https://cdn.scenaro.io',
+  apiUrl: 'https://api.scenaro.io',
+};
+
+const PUBLICATION_ID_PLACEHOLDER = '{publicationId}';
+
+/** Absolute base URL without trailing slash, or null when invalid. */
+function normalizeBaseUrl(value: string): string | null {
+  try {
+    const url = new URL(value, window.location.href);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    return url.href.replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+}
+
+/** Fill in defaults; invalid URLs are ignored with a warning. */
+export function resolveEnvironment(environment: ScenaroEnvironment = {}): Required<ScenaroEnvironment> {
+  const resolved = { ...DEFAULT_ENVIRONMENT };
+  for (const key of Object.keys(DEFAULT_ENVIRONMENT) as Array<keyof ScenaroEnvironment>) {
+    const value = environment[key];
+    if (!value) continue;
+    // Keep the placeholder readable: normalize the URL around it
+    const normalized = normalizeBaseUrl(value.replace(PUBLICATION_ID_PLACEHOLDER, '__publication_id__'));
+    if (normalized) {
+      resolved[key] = normalized.replace('__publication_id__', PUBLICATION_ID_PLACEHOLDER);
+    } else {
+      console.warn(`[Scenaro] Ignoring invalid ${key}: ${value}`);
+    }
+  }
+  return resolved;
+}
+
+/** Iframe URL: {embedUrl}/{publicationId}, or embedUrl with its {publicationId} placeholder filled in. */
+export function embedUrlFor(embedUrl: string, publicationId: string): URL {
+  const id = encodeURIComponent(publicationId);
+  return new URL(
+    embedUrl.includes(PUBLICATION_ID_PLACEHOLDER)
+      ? embedUrl.replace(PUBLICATION_ID_PLACEHOLDER, id)
+      : `${embedUrl}/${id}`
+  );
+}
+
+/** Origins trusted by default: the embed origin */
+export function defaultAllowedOrigins(environment: Required<ScenaroEnvironment>): string[] {
+  return [embedUrlFor(environment.embedUrl, 'id').origin];
+}
+
+/** CDN base derived from the widget script URL (https://cdn.example.com/widget.js -> https://cdn.example.com). */
+export function cdnUrlFromScript(src: string): string | undefined {
+  if (!src) return undefined;
+  try {
+    return new URL('.', src).href.replace(/\/+$/, '');
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,41 @@
+import { ScenaroEventType, ScenaroProtocolInfo } from '../types';
+
+/** Bump the minor version for additive changes, the major version when message shapes change */
+export const PROTOCOL_VERSION = '1.4';
+
+/** Iframe messages handled outside the RPC channel (RPC request types are added by the widget) */
+export const BASE_ACCEPTED_MESSAGES: ScenaroEventType[] = ['SCENARO_READY', 'SCENARO_END', 'SCENARO_REDIRECT'];
+
+/** Answers to iframe requests: always sent, the iframe asked for them */
+const ALWAYS_SENT: string[] = [
+  'SCENARO_HANDSHAKE',
+  'SCENARO_CART_RESPONSE',
+  'SCENARO_CAPABILITY_RESPONSE',
+  'SCENARO_CATALOG_RESPONSE',
+  'SCENARO_WISHLIST_RESPONSE'
+];
+
+function major(version: string): number {
+  return parseInt(version.split('.')[0], 10);
+}
+
+/** Validate the iframe's announcement; null when it is missing or malformed (legacy iframe). */
+export function parseProtocol(value: unknown): ScenaroProtocolInfo | null {
+  const protocol = value as ScenaroProtocolInfo | undefined;
+  if (!protocol || typeof protocol.version !== 'string' || !Number.isFinite(major(protocol.version))) {
+    return null;
+  }
+  return {
+    version: protocol.version,
+    messages: Array.isArray(protocol.messages) ? protocol.messages.filter((type) => typeof type === 'string') : []
+  };
+}
+
+export function isCompatible(peer: ScenaroProtocolInfo): boolean {
+  return major(peer.version) === major(PROTOCOL_VERSION);
+}
+
+/** Whether a message may be sent to the iframe. Legacy iframes (no announcement) get every message. */
+export function peerAccepts(peer: ScenaroProtocolInfo | null, type: string): boolean {
+  return !peer || ALWAYS_SENT.includes(type) || peer.messages.includes(type);
+}
@@ -0,0 +1,46 @@
+// @vitest-environment jsdom
+// @vitest-environment-options { "url": "https://shop.example.com/products/tee" }
+import { afterEach, describe, expect, it } from 'vitest';
+import { resolveRedirectUrl } from './redirect';
+
+// jsdom instance of the test environment (navigations cannot change the page's protocol)
+declare const jsdom: { reconfigure(options: { url: string }): void };
+
+const config = { allowedHosts: ['checkout.example.com', '*.example-cdn.com'] };
+
+describe('resolveRedirectUrl', () => {
+  afterEach(() => {
+    jsdom.reconfigure({ url: 'https://shop.example.com/products/tee' });
+  });
+
+  it('accepts the page origin and relative URLs', () => {
+    expect(resolveRedirectUrl('/cart', config)?.href).toBe('https://shop.example.com/cart');
+    expect(resolveRedirectUrl('https://shop.example.com/checkout', {})?.href).toBe('https://shop.example.com/checkout');
+  });
+
+  it('rejects javascript: and data: URLs', () => {
+    expect(resolveRedirectUrl('javascript:alert(1)', config)).toBeNull();
+    expect(resolveRedirectUrl('JavaScript:alert(document.cookie)', config)).toBeNull();
+    expect(resolveRedirectUrl('data:text/html,<script>alert(1)</script>', config)).toBeNull();
+  });
+
+  it('rejects hosts off the allowlist', () => {
+    expect(resolveRedirectUrl('https://evil.test/', config)).toBeNull();
+    expect(resolveRedirectUrl('https://checkout.example.com.evil.test/', config)).toBeNull();
+    expect(resolveRedirectUrl('https://example.com/', config)).toBeNull();
+  });
+
+  it('matches *. entries on the domain and its subdomains', () => {
+    expect(resolveRedirectUrl('https://example-cdn.com/a', config)).not.toBeNull();
+    expect(resolveRedirectUrl('https://eu.static.example-cdn.com/a', config)).not.toBeNull();
+    expect(resolveRedirectUrl('https://notexample-cdn.com/a', config)).toBeNull();
+    expect(resolveRedirectUrl('https://example-cdn.com.evil.test/a', config)).toBeNull();
+  });
+
+  it('requires https for allowed hosts unless the page is served over http', () => {
+    expect(resolveRedirectUrl('http://checkout.example.com/', config)).toBeNull();
+
+    jsdom.reconfigure({ url: 'http://localhost:8080/' });
+    expect(resolveRedirectUrl('http://checkout.example.com/', config)?.href).toBe('http://checkout.example.com/');
+  });
+});
@@ -0,0 +1,51 @@
+import { ScenaroRedirectConfig } from '../types';
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+
+/** Host matches an allowlist entry ('shop.example.com' or '*.example.com') */
+function hostAllowed(host: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some((entry) => {
+    const pattern = entry.trim().toLowerCase();
+    if (pattern.startsWith('*.')) {
+      const domain = pattern.slice(2);
+      return host === domain || host.endsWith(`.${domain}`);
+    }
+    return host === pattern;
+  });
+}
+
+/**
+ * Validate a redirect URL from the iframe: http(s) only, on the page's origin or an allowed host.
+ * Allowed hosts must use https unless the page itself is served over http (local and staging setups).
+ * Relative URLs resolve against the page. Returns null when the URL is rejected.
+ */
+export function resolveRedirectUrl(rawUrl: string, config: ScenaroRedirectConfig): URL | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl, window.location.href);
+  } catch {
+    return null;
+  }
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+    return null;
+  }
+  if (url.origin === window.location.origin) {
+    return url;
+  }
+  const secure = url.protocol === 'https:' || window.location.protocol === 'http:';
+  return secure && hostAllowed(url.hostname, config.allowedHosts || []) ? url : null;
+}
+
+/** Add attribution parameters (config.utm) without overriding those already in the URL. */
+export function addAttribution(url: URL, config: ScenaroRedirectConfig, publicationId: string): URL {
+  if (!config.utm) return url;
+  const params = config.utm === true
+    ? { utm_source: 'scenaro', utm_medium: 'conversation', utm_campaign: publicationId }
+    : config.utm;
+  for (const [key, value] of Object.entries(params)) {
+    if (value && !url.searchParams.has(key)) {
+      url.searchParams.set(key, value);
+    }
+  }
+  return url;
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RpcChannel, RpcRoute } from './rpc';
+
+// Handler double resolved by the test
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe('RpcChannel', () => {
+  let post: ReturnType<typeof vi.fn>;
+  let channel: RpcChannel;
+  let route: RpcRoute & { handler: ReturnType<typeof vi.fn>; onLateResult: ReturnType<typeof vi.fn> };
+
+  const responses = () => post.mock.calls.map(([message]) => message).filter((message) => message.type === 'TEST_RESPONSE');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    post = vi.fn();
+    channel = new RpcChannel(post);
+    route = {
+      responseType: 'TEST_RESPONSE',
+      handler: vi.fn(async () => ({ success: true })),
+      failure: (error) => ({ success: false, error }),
+      timeoutMs: 1000,
+      onLateResult: vi.fn()
+    };
+    channel.register('TEST_REQUEST', route);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('acknowledges and answers a request once', async () => {
+    expect(channel.dispatch({ type: 'TEST_REQUEST', requestId: 'r1' } as any)).toBe(true);
+    expect(post).toHaveBeenCalledWith({ type: 'SCENARO_RPC_ACK', requestId: 'r1' });
+
+    await vi.runAllTimersAsync();
+    expect(responses()).toEqual([{ type: 'TEST_RESPONSE', requestId: 'r1', success: true }]);
+  });
+
+  it('answers TIMEOUT, then passes the late result to onLateResult', async () => {
+    const pending = deferred<Record<string, any>>();
+    route.handler.mockReturnValue(pending.promise);
+
+    channel.dispatch({ type: 'TEST_REQUEST', requestId: 'r1' } as any);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(responses()).toEqual([{ type: 'TEST_RESPONSE', requestId: 'r1', success: false, error: { code: 'TIMEOUT', message: 'No response within 1000ms' } }]);
+
+    pending.resolve({ success: true });
+    await vi.runAllTimersAsync();
+    expect(route.onLateResult).toHaveBeenCalledWith({ success: true }, expect.objectContaining({ requestId: 'r1' }));
+    expect(responses()).toHaveLength(1);
+  });
+
+  it('ignores a replayed requestId', async () => {
+    channel.dispatch({ type: 'TEST_REQUEST', requestId: 'r1' } as any);
+    expect(channel.dispatch({ type: 'TEST_REQUEST', requestId: 'r1' } as any)).toBe(true);
+
+    await vi.runAllTimersAsync();
+    expect(route.handler).toHaveBeenCalledTimes(1);
+    expect(responses()).toHaveLength(1);
+  });
+
+  it('rejects a stale request with INVALID_REQUEST without running it', () => {
+    channel.dispatch({ type: 'TEST_REQUEST', requestId: 'r1', sentAt: Date.now() - 61000 } as any);
+
+    expect(route.handler).not.toHaveBeenCalled();
+    expect(post).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'SCENARO_RPC_ACK' }));
+    expect(responses()).toEqual([{ type: 'TEST_RESPONSE', requestId: 'r1', success: false, error: { code: 'INVALID_REQUEST', message: 'Stale request' } }]);
+  });
+
+  it('drops answers from before reset() and accepts requestIds again', async () => {
+    const pending = deferred<Record<string, any>>();
+    route.handler.mockReturnValueOnce(pending.promise);
+    channel.dispatch({ type: 'TEST_REQUEST', requestId: 'r1' } as any);
+
+    channel.reset();
+    pending.resolve({ success: true });
+    await vi.runAllTimersAsync();
+    expect(responses()).toEqual([]);
+    expect(route.onLateResult).not.toHaveBeenCalled();
+
+    channel.dispatch({ type: 'TEST_REQUEST', requestId: 'r1' } as any);
+    await vi.runAllTimersAsync();
+    expect(responses()).toEqual([{ type: 'TEST_RESPONSE', requestId: 'r1', success: true }]);
+  });
+});
@@ -0,0 +1,144 @@
+import { toCartError } from '../errors';
+import { CartError, CartProgress, RpcAck, RpcProgress, RpcRequest } from '../types';
+
+export interface RpcContext {
+  requestId: string;
+  /** Send SCENARO_RPC_PROGRESS for this request (ignored once it has been answered) */
+  progress(progress: CartProgress): void;
+}
+
+export interface RpcRoute<Req extends RpcRequest = any> {
+  /** Type of the response message (e.g. SCENARO_CART_RESPONSE) */
+  responseType: string;
+  /** Response fields, without type and requestId */
+  handler(request: Req, context: RpcContext): Promise<Record<string, any>>;
+  /** Response fields sent when the handler throws, times out, or the request is stale */
+  failure(error: CartError): Record<string, any>;
+  timeoutMs?: number;
+  /** Called with every response sent for this route */
+  onResponse?(response: Record<string, any>, request: Req): void;
+  /** Called with the handler's result when it arrives after the timeout response was sent */
+  onLateResult?(result: Record<string, any>, request: Req): void;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+/** Requests sent longer ago than this (sentAt) are answered with INVALID_REQUEST */
+const STALE_AFTER_MS = 60000;
+/** Number of requestIds remembered for duplicate detection */
+const MAX_SEEN_IDS = 500;
+
+/**
+ * Request/response channel with the iframe: routes requests by message type, acknowledges them,
+ * and always answers exactly once (handler result, error or timeout). Replayed requestIds are
+ * ignored; answers to requests from a previous iframe session (before reset()) are dropped.
+ */
+export class RpcChannel {
+  private routes: Map<string, RpcRoute> = new Map();
+  /** Recently seen requestIds, oldest first */
+  private seen: Set<string> = new Set();
+  /** Incremented by reset(); in-flight requests from an older session are not answered */
+  private session = 0;
+  private post: (message: { type: string }) => void;
+
+  constructor(post: (message: { type: string }) => void) {
+    this.post = post;
+  }
+
+  register<Req extends RpcRequest>(type: string, route: RpcRoute<Req>): void {
+    this.routes.set(type, route);
+  }
+
+  /** Request types with a route (announced in the protocol handshake) */
+  types(): string[] {
+    return [...this.routes.keys()];
+  }
+
+  /** Handle a request if a route is registered for its type. Returns false for other messages. */
+  dispatch(request: RpcRequest): boolean {
+    const route = this.routes.get(request.type);
+    if (!route) return false;
+
+    const { requestId } = request;
+    if (!requestId || typeof requestId !== 'string') {
+      console.warn(`[Scenaro] Ignoring ${request.type} without requestId`);
+      return true;
+    }
+    if (this.seen.has(requestId)) {
+      console.warn(`[Scenaro] Ignoring duplicate ${request.type} (requestId ${requestId})`);
+      return true;
+    }
+    this.remember(requestId);
+
+    if (typeof request.sentAt === 'number' && Date.now() - request.sentAt > STALE_AFTER_MS) {
+      console.warn(`[Scenaro] Rejecting stale ${request.type} (requestId ${requestId})`);
+      this.respond(route, request, route.failure({ code: 'INVALID_REQUEST', message: 'Stale request' }));
+      return true;
+    }
+
+    const ack: RpcAck = { type: 'SCENARO_RPC_ACK', requestId };
+    this.post(ack);
+    this.run(route, request);
+    return true;
+  }
+
+  /** Forget seen ids and drop in-flight answers (new iframe session: ids may restart). */
+  reset(): void {
+    this.seen.clear();
+    this.session++;
+  }
+
+  private async run(route: RpcRoute, request: RpcRequest): Promise<void> {
+    const { requestId } = request;
+    const session = this.session;
+    const timeoutMs = route.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    let answered = false;
+    const isCurrent = () => !answered && session === this.session;
+
+    const timer = setTimeout(() => {
+      if (!isCurrent()) return;
+      answered = true;
+      console.warn(`[Scenaro] ${request.type} timed out after ${timeoutMs}ms (requestId ${requestId})`);
+      this.respond(route, request, route.failure({ code: 'TIMEOUT', message: `No response within ${timeoutMs}ms` }));
+    }, timeoutMs);
+
+    const context: RpcContext = {
+      requestId,
+      progress: (progress) => {
+        if (!isCurrent()) return;
+        const message: RpcProgress = { type: 'SCENARO_RPC_PROGRESS', requestId, progress };
+        this.post(message);
+      }
+    };
+
+    let result: Record<string, any>;
+    try {
+      result = await route.handler(request, context);
+    } catch (error) {
+      console.error(`[Scenaro] Error handling ${request.type}:`, error);
+      result = route.failure(toCartError(error));
+    }
+    clearTimeout(timer);
+
+    if (session !== this.session) return;
+    if (answered) {
+      route.onLateResult?.(result, request);
+      return;
+    }
+    answered = true;
+    this.respond(route, request, result);
+  }
+
+  private respond(route: RpcRoute, request: RpcRequest, fields: Record<string, any>): void {
+    const response = { ...fields, type: route.responseType, requestId: request.requestId };
+    this.post(response);
+    route.onResponse?.(response, request);
+  }
+
+  private remember(requestId: string): void {
+    this.seen.add(requestId);
+    if (this.seen.size > MAX_SEEN_IDS) {
+      const oldest = this.seen.values().next().value;
+      if (oldest !== undefined) this.seen.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createScenaro } from '../index';
+import { IframeSimulator, useLocalModules } from '../testing';
+import { ScenaroHandle } from '../types';
+
+describe('ScenaroWidget.open', () => {
+  let scenaro: ScenaroHandle;
+
+  beforeEach(() => {
+    useLocalModules();
+    vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new Error('unexpected fetch'))));
+  });
+
+  afterEach(() => {
+    scenaro.destroy();
+    document.body.replaceChildren();
+    vi.unstubAllGlobals();
+  });
+
+  it('creates a single iframe when called again before the first call finished', async () => {
+    // The first call waits for its container, which the page renders later
+    scenaro = createScenaro({ publicationId: 'test', container: '#late-container', consent: { provider: async () => true } });
+    const opened = vi.fn();
+    scenaro.on('open', opened);
+
+    const first = scenaro.open();
+    setTimeout(() => {
+      const container = document.createElement('div');
+      container.id = 'late-container';
+      document.body.appendChild(container);
+    }, 20);
+    await Promise.all([first, scenaro.open()]);
+
+    expect(document.querySelectorAll('iframe[id^="scenaro-iframe"]')).toHaveLength(1);
+    expect(opened).toHaveBeenCalledTimes(1);
+  });
+
+  it('opens again after close', async () => {
+    scenaro = createScenaro({ publicationId: 'test', mode: 'fullscreen' });
+    await scenaro.open();
+    scenaro.close();
+    await scenaro.open();
+    expect(document.querySelectorAll('iframe[id^="scenaro-iframe"]')).toHaveLength(1);
+  });
+});
+
+describe('ScenaroWidget messages', () => {
+  let scenaro: ScenaroHandle;
+
+  beforeEach(() => {
+    useLocalModules();
+    vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new Error('unexpected fetch'))));
+  });
+
+  afterEach(() => {
+    scenaro.destroy();
+    document.body.replaceChildren();
+    vi.unstubAllGlobals();
+  });
+
+  it('ignores messages from another window', async () => {
+    scenaro = createScenaro({ publicationId: 'test', mode: 'fullscreen' });
+    const ready = vi.fn();
+    scenaro.on('ready', ready);
+    await scenaro.open();
+    const iframe = await IframeSimulator.attach();
+
+    // Right origin, but posted by the page (or another frame) instead of the widget iframe
+    window.dispatchEvent(new MessageEvent('message', { data: { type: 'SCENARO_READY' }, origin: 'https://embed.scenaro.io', source: window }));
+    expect(ready).not.toHaveBeenCalled();
+    expect(iframe.received('SCENARO_HANDSHAKE')).toEqual([]);
+
+    iframe.ready();
+    expect(ready).toHaveBeenCalledTimes(1);
+    iframe.detach();
+  });
+
+  it('ignores messages from an origin outside allowedOrigins', async () => {
+    scenaro = createScenaro({ publicationId: 'test', mode: 'fullscreen' });
+    const ready = vi.fn();
+    scenaro.on('ready', ready);
+    await scenaro.open();
+    const iframe = await IframeSimulator.attach(undefined, { origin: 'https://evil.test' });
+
+    iframe.ready();
+
+    expect(ready).not.toHaveBeenCalled();
+    expect(iframe.received('SCENARO_HANDSHAKE')).toEqual([]);
+    iframe.detach();
+  });
+
+  it('does not create the iframe when the embed origin is not allowed', async () => {
+    scenaro = createScenaro({ publicationId: 'test', mode: 'fullscreen', allowedOrigins: ['https://other.test'] });
+
+    await scenaro.open();
+
+    expect(document.querySelector('iframe[id^="scenaro-iframe"]')).toBeNull();
+  });
+});
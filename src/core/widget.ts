@@ -0,0 +1,1188 @@
+import {
+  CapabilityRequest,
+  CapabilityResponse,
+  CartRequest,
+  CartResponse,
+  CartResult,
+  CatalogRequest,
+  CatalogResult,
+  Connector,
+  Engine,
+  NormalizedCart,
+  PublicationConfig,
+  RpcRequest,
+  ScenaroAnalyticsConfig,
+  ScenaroAnyEvent,
+  ScenaroConsent,
+  ScenaroConsentConfig,
+  ScenaroConsentState,
+  ScenaroCreateConfig,
+  ScenaroDisplayMode,
+  ScenaroEnvironment,
+  ScenaroErrorCode,
+  ScenaroErrorEvent,
+  ScenaroEventListener,
+  ScenaroEventMap,
+  ScenaroEventName,
+  ScenaroEventPayload,
+  ScenaroHandle,
+  ScenaroOpenConfig,
+  ScenaroHandshake,
+  ScenaroPanelConfig,
+  ScenaroProtocolInfo,
+  ScenaroRedirectConfig,
+  ScenaroRedirectEvent,
+  ScenaroRedirectTarget,
+  ScenaroWildcardListener,
+  WishlistRequest,
+  WishlistResult
+} from '../types';
+import { AnalyticsTracker } from '../analytics';
+import { ConsentManager, iframePermissions } from '../consent';
+import { ScenaroEmitter } from './emitter';
+import { defaultAllowedOrigins, embedUrlFor, resolveEnvironment } from './environment';
+import { BASE_ACCEPTED_MESSAGES, isCompatible, parseProtocol, peerAccepts, PROTOCOL_VERSION } from './protocol';
+import { addAttribution, resolveRedirectUrl } from './redirect';
+import { RpcChannel, RpcContext } from './rpc';
+import { DEFAULT_PANEL_OPTIONS, FloatingLauncher } from '../ui/launcher';
+
+/** Stored overflow values to restore when exiting fullscreen */
+let parentOverflow: { html: string; body: string } | null = null;
+
+/** Wake Lock API (screen awake) - optional on Navigator */
+interface WakeLockSentinel {
+  release(): Promise<void>;
+}
+
+/** Engine used when the publication config does not declare one (or cannot be fetched) */
+const DEFAULT_ENGINE = 'commerce';
+
+/** Engine and connector names map to CDN file names (engines/{name}.js, connectors/{name}.js) */
+const MODULE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/** Runtime check that a dynamically loaded object implements the Engine interface. */
+function isEngine(value: any): value is Engine {
+  return !!value
+    && typeof value.name === 'string'
+    && ['initialize', 'setIframe', 'connect', 'onEnd'].every((method) => typeof value[method] === 'function');
+}
+
+/** Runtime check that a dynamically loaded object implements the Connector interface. */
+function isConnector(value: any): value is Connector {
+  const optional = [
+    'listCart', 'addToCart', 'updateCart', 'removeCart', 'clearCart', 'batchCart', 'applyCoupon', 'removeCoupon',
+    'getProduct', 'searchProducts', 'listWishlist', 'addToWishlist', 'removeFromWishlist', 'moveWishlistToCart', 'watchCart'
+  ];
+  return !!value
+    && typeof value.name === 'string'
+    && typeof value.refreshCart === 'function'
+    && optional.every((method) => value[method] === undefined || typeof value[method] === 'function');
+}
+
+/** Normalize a list of origins (comma or whitespace separated string, or array) to `scheme://host[:port]`. Invalid entries are dropped. */
+export function parseOrigins(value: string | string[]): string[] {
+  const entries = Array.isArray(value) ? value : value.split(/[\s,]+/);
+  const origins: string[] = [];
+  for (const entry of entries) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    try {
+      origins.push(new URL(trimmed).origin);
+    } catch {
+      console.warn(`[Scenaro] Ignoring invalid allowed origin: ${trimmed}`);
+    }
+  }
+  return origins;
+}
+
+/** Instance options: script tag config (default instance) or createScenaro() config */
+export interface WidgetOptions {
+  publicationId: string;
+  allowedOrigins: string[];
+  mode: ScenaroDisplayMode;
+  panel: ScenaroPanelConfig;
+  /** Element or CSS selector the iframe is appended to in inline/auto mode */
+  container: HTMLElement | string;
+  iframeId: string;
+  metadata?: Record<string, any>;
+  analytics?: ScenaroAnalyticsConfig;
+  consent?: ScenaroConsentConfig;
+  redirect?: ScenaroRedirectConfig;
+  environment: Required<ScenaroEnvironment>;
+}
+
+export const DEFAULT_CONTAINER = '#scenaro-container';
+
+/** Capabilities served by the engine's connector */
+const CONNECTOR_CAPABILITIES = ['cart', 'coupon', 'catalog', 'wishlist'];
+
+/** Per-request timeouts (ms): the iframe gets a TIMEOUT error instead of waiting forever on a connector */
+const CART_REQUEST_TIMEOUTS: Record<CartRequest['type'], number> = {
+  SCENARO_CART_LIST_REQUEST: 10000,
+  SCENARO_CART_ADD_REQUEST: 20000,
+  SCENARO_CART_UPDATE_REQUEST: 20000,
+  SCENARO_CART_REMOVE_REQUEST: 20000,
+  // Some connectors remove items one by one (progress is reported)
+  SCENARO_CART_CLEAR_REQUEST: 60000,
+  // Up to 50 operations, plus the rollback
+  SCENARO_CART_BATCH_REQUEST: 60000,
+  SCENARO_COUPON_APPLY_REQUEST: 20000,
+  SCENARO_COUPON_REMOVE_REQUEST: 20000,
+};
+
+const CATALOG_REQUEST_TIMEOUTS: Record<CatalogRequest['type'], number> = {
+  SCENARO_CATALOG_GET_REQUEST: 15000,
+  SCENARO_CATALOG_SEARCH_REQUEST: 15000,
+};
+
+const WISHLIST_REQUEST_TIMEOUTS: Record<WishlistRequest['type'], number> = {
+  SCENARO_WISHLIST_LIST_REQUEST: 10000,
+  SCENARO_WISHLIST_ADD_REQUEST: 20000,
+  SCENARO_WISHLIST_REMOVE_REQUEST: 20000,
+  SCENARO_WISHLIST_MOVE_TO_CART_REQUEST: 20000,
+};
+
+export class ScenaroWidget {
+  /** Iframe windows of open instances; the single window 'message' listener routes by event.source */
+  private static instancesBySource: Map<MessageEventSource, ScenaroWidget> = new Map();
+  /** Live (not destroyed) instances; the message listener is removed with the last one */
+  private static instances: Set<ScenaroWidget> = new Set();
+  private static instanceCount = 0;
+  /** Engine/connector modules provided in-process ('engines/commerce'), used instead of the CDN bundle */
+  private static localModules: Map<string, any> = new Map();
+  /** Publication config provided in-process, used instead of the API */
+  private static localPublication: Partial<PublicationConfig> | null = null;
+
+  /** Provide an engine or connector module in-process (tests, offline demos) instead of importing it from the CDN. */
+  static provideModule(kind: 'engines' | 'connectors', name: string, module: any): void {
+    ScenaroWidget.localModules.set(`${kind}/${name}`, module);
+  }
+
+  /** Publication config served in-process for every publication (tests, offline demos) instead of fetching it from the API; null restores the fetch. */
+  static providePublication(config: Partial<PublicationConfig> | null): void {
+    ScenaroWidget.localPublication = config;
+  }
+
+  private static routeMessage(event: MessageEvent): void {
+    const instance = event.source ? ScenaroWidget.instancesBySource.get(event.source) : undefined;
+    if (instance) {
+      instance.handleMessage(event);
+    }
+  }
+
+  /** Create an independent widget (own iframe, listeners, metadata, engine). Backs createScenaro() and Scenaro.create(). */
+  static create(config: ScenaroCreateConfig): ScenaroHandle {
+    if (!config?.publicationId) {
+      throw new Error('[Scenaro] create() requires a publicationId');
+    }
+    ScenaroWidget.instanceCount++;
+    const environment = resolveEnvironment(config.environment);
+    const widget = new ScenaroWidget({
+      publicationId: config.publicationId,
+      allowedOrigins: config.allowedOrigins ? parseOrigins(config.allowedOrigins) : defaultAllowedOrigins(environment),
+      mode: config.mode ?? (config.container ? 'inline' : 'auto'),
+      panel: config.panel ?? {},
+      container: config.container ?? DEFAULT_CONTAINER,
+      iframeId: `scenaro-iframe-${ScenaroWidget.instanceCount}`,
+      metadata: config.metadata,
+      analytics: config.analytics,
+      consent: config.consent,
+      redirect: config.redirect,
+      environment,
+    });
+    return widget.handle();
+  }
+
+  private publicationId: string;
+  private iframe: HTMLIFrameElement | null = null;
+  private engine: any = null; // Typed as any because it is loaded dynamically (validated by isEngine)
+  private events = new ScenaroEmitter();
+  private metadata: Record<string, any> = {};
+  /** True when iframe is appended to body (fullscreen), so we hide parent scrollbars */
+  private isFullscreenAttachment: boolean = false;
+  /** Viewport listeners for fullscreen dynamic height - removed in close() */
+  private viewportResizeHandler: (() => void) | null = null;
+  private wakeLockSentinel: WakeLockSentinel | null = null;
+  private visibilityChangeHandler: (() => void) | null = null;
+  /** Origins the bridge may talk to (embed origin must be one of them) */
+  private allowedOrigins: string[];
+  /** Origin of the current iframe; messages are only accepted from and posted to this origin */
+  private embedOrigin: string | null = null;
+  /** True once the iframe sent SCENARO_READY (engine may load after that) */
+  private iframeReady: boolean = false;
+
+  private container: HTMLElement | string;
+  private iframeId: string;
+  /** contentWindow of the current iframe (kept to unregister after the iframe is removed) */
+  private iframeWindow: Window | null = null;
+
+  /** Default display mode (script tag / create config); ScenaroOpenConfig.mode overrides it per open */
+  private displayMode: ScenaroDisplayMode;
+  private panelConfig: ScenaroPanelConfig;
+  /** Display mode of the current iframe */
+  private activeMode: ScenaroDisplayMode | null = null;
+  private launcher: FloatingLauncher | null = null;
+  private languageChangeHandler = () => this.handleLanguageChange();
+  private launcherMountHandler: (() => void) | null = null;
+  private destroyed: boolean = false;
+  private analytics: AnalyticsTracker | null = null;
+  private consent: ConsentManager | null = null;
+  /** Analytics follows the consent manager's analytics purpose (no analytics.consent, no setAnalyticsConsent() call) */
+  private analyticsFollowsConsent: boolean = false;
+  /** open() config waiting for functional consent (consent whenMissing: 'defer') */
+  private deferredOpen: ScenaroOpenConfig | null = null;
+  /** open() in progress (consent, iframe, engine), shared by concurrent calls */
+  private opening: Promise<void> | null = null;
+  private redirectConfig: ScenaroRedirectConfig;
+  /** Embed, CDN and API base URLs */
+  private environment: Required<ScenaroEnvironment>;
+  /** Requests from the iframe (capabilities, cart) and their responses */
+  private rpc = new RpcChannel((message) => this.postToIframe(message));
+  /** Protocol announced by the current iframe (null: legacy iframe, or not announced yet) */
+  private peerProtocol: ScenaroProtocolInfo | null = null;
+
+  constructor(options: WidgetOptions) {
+    this.publicationId = options.publicationId;
+    this.allowedOrigins = options.allowedOrigins;
+    this.displayMode = options.mode;
+    this.panelConfig = options.panel;
+    this.container = options.container;
+    this.iframeId = options.iframeId;
+    this.redirectConfig = options.redirect ?? {};
+    this.environment = options.environment;
+    this.registerRpcRoutes();
+    if (options.metadata) {
+      this.metadata = { ...options.metadata };
+    }
+    if (options.analytics) {
+      this.analyticsFollowsConsent = options.analytics.consent === undefined;
+      // With consent gating, events wait for the analytics purpose
+      const config = options.consent && this.analyticsFollowsConsent ? { ...options.analytics, consent: 'pending' as const } : options.analytics;
+      const analytics = new AnalyticsTracker(config, options.publicationId);
+      this.events.on('*', (event: ScenaroAnyEvent) => analytics.handleEvent(event));
+      this.analytics = analytics;
+    }
+    if (options.consent) {
+      this.consent = new ConsentManager(options.consent);
+      this.consent.subscribe((state) => this.handleConsentChange(state));
+    }
+    this.init();
+  }
+
+  /** Public API of this instance (window.Scenaro for the script tag instance, Scenaro.create() handles) */
+  public handle(): ScenaroHandle {
+    return {
+      open: this.open.bind(this),
+      close: this.close.bind(this),
+      on: this.on.bind(this),
+      once: this.once.bind(this),
+      off: this.off.bind(this),
+      updateMetadata: this.updateMetadata.bind(this),
+      registerConnector: this.registerConnector.bind(this),
+      setConsent: this.setConsent.bind(this),
+      setAnalyticsConsent: this.setAnalyticsConsent.bind(this),
+      destroy: this.destroy.bind(this),
+    };
+  }
+
+  private init() {
+    // Listen for messages from Iframes (one listener shared by all instances)
+    if (ScenaroWidget.instances.size === 0) {
+      window.addEventListener('message', ScenaroWidget.routeMessage);
+    }
+    ScenaroWidget.instances.add(this);
+    
+    // Listen for language changes
+    window.addEventListener('languageChanged', this.languageChangeHandler);
+
+    // Launcher mode: show the bubble as soon as the body exists
+    if (this.displayMode === 'launcher') {
+      if (document.body) {
+        this.getLauncher().mount();
+      } else {
+        this.launcherMountHandler = () => {
+          this.launcherMountHandler = null;
+          this.getLauncher().mount();
+        };
+        document.addEventListener('DOMContentLoaded', this.launcherMountHandler, { once: true });
+      }
+    }
+  }
+
+  /** Close and remove everything this instance added to the page (DOM, window/document listeners). */
+  public destroy(): void {
+    if (this.destroyed) return;
+    this.close();
+    this.launcher?.destroy();
+    this.launcher = null;
+    this.consent?.destroy();
+    window.removeEventListener('languageChanged', this.languageChangeHandler);
+    if (this.launcherMountHandler) {
+      document.removeEventListener('DOMContentLoaded', this.launcherMountHandler);
+      this.launcherMountHandler = null;
+    }
+    this.events.clear();
+    this.destroyed = true;
+
+    ScenaroWidget.instances.delete(this);
+    if (ScenaroWidget.instances.size === 0) {
+      window.removeEventListener('message', ScenaroWidget.routeMessage);
+    }
+  }
+
+  public setConsent(consent: Partial<ScenaroConsent> | boolean): void {
+    if (!this.consent) {
+      this.consent = new ConsentManager({});
+      this.consent.subscribe((state) => this.handleConsentChange(state));
+    }
+    this.consent.set(consent);
+  }
+
+  /** Open a deferred widget once consent is given; close it if functional consent is withdrawn. */
+  private handleConsentChange(state: ScenaroConsentState): void {
+    this.syncAnalyticsConsent(state);
+    if (state.functional && this.deferredOpen) {
+      const config = this.deferredOpen;
+      this.deferredOpen = null;
+      this.open(config);
+      return;
+    }
+    if (this.iframe) {
+      if (state.functional) {
+        this.sendMetadataToIframe();
+      } else {
+        this.close();
+      }
+    }
+  }
+
+  /** Functional consent gate for open(): 'block' gives up, 'defer' keeps the config until consent is given. */
+  private async hasConsent(config?: ScenaroOpenConfig): Promise<boolean> {
+    if (!this.consent) return true;
+    const consent = await this.consent.resolve();
+    this.syncAnalyticsConsent(consent);
+    if (consent.functional) return true;
+    this.emit('consentRequired', consent);
+    if (this.consent.whenMissing === 'defer') {
+      console.log('[Scenaro] Waiting for consent before opening');
+      this.deferredOpen = config ?? {};
+    } else {
+      console.warn('[Scenaro] Consent not given, widget not opened');
+    }
+    return false;
+  }
+
+  public setAnalyticsConsent(granted: boolean): void {
+    if (!this.analytics) {
+      console.warn('[Scenaro] Analytics is not configured for this widget');
+      return;
+    }
+    // An explicit answer from the host wins over the consent manager from now on
+    this.analyticsFollowsConsent = false;
+    this.analytics.setConsent(granted);
+  }
+
+  /** Pass the analytics purpose to the tracker, unless the host manages analytics consent itself. */
+  private syncAnalyticsConsent(state: ScenaroConsentState): void {
+    if (this.analytics && this.analyticsFollowsConsent) {
+      this.analytics.setConsent(state.analytics);
+    }
+  }
+
+  private getLauncher(): FloatingLauncher {
+    const options = { ...DEFAULT_PANEL_OPTIONS, ...this.panelConfig };
+    if (!this.launcher) {
+      // Bubble toggles the conversation; its ids share the iframe's suffix (scenaro-iframe-2 -> scenaro-launcher-2)
+      const idSuffix = this.iframeId.replace(/^scenaro-iframe/, '');
+      this.launcher = new FloatingLauncher(options, () => (this.iframe ? this.close() : this.open()), idSuffix);
+    } else {
+      this.launcher.configure(options);
+    }
+    return this.launcher;
+  }
+
+  public open(config?: ScenaroOpenConfig): Promise<void> {
+    if (this.destroyed) {
+      console.warn('[Scenaro] Cannot open a destroyed widget');
+      return Promise.resolve();
+    }
+    if (this.iframe) return Promise.resolve(); // Already open
+    // Concurrent calls (open() plus a launcher click) share the pending open
+    if (!this.opening) {
+      this.opening = this.openIframe(config).finally(() => {
+        this.opening = null;
+      });
+    }
+    return this.opening;
+  }
+
+  /** Consent check, then iframe and engine; open() makes sure only one runs at a time. */
+  private async openIframe(config?: ScenaroOpenConfig): Promise<void> {
+    if (!(await this.hasConsent(config)) || this.iframe || this.destroyed) return;
+
+    // Publication ID: config override or script tag
+    const publicationId = (config?.publicationId && config.publicationId.trim() !== '')
+      ? config.publicationId.trim()
+      : this.publicationId;
+
+    // Store metadata if provided
+    if (config?.metadata) {
+      this.metadata = { ...this.metadata, ...config.metadata };
+    }
+
+    if (config?.allowedOrigins) {
+      this.allowedOrigins = parseOrigins(config.allowedOrigins);
+    }
+
+    if (config?.panel) {
+      this.panelConfig = { ...this.panelConfig, ...config.panel };
+    }
+    const mode = config?.mode ?? this.displayMode;
+
+    // Emit 'open' event
+    this.emit('open');
+
+    await this.createIframe(publicationId, mode);
+    await this.loadEngine(publicationId);
+  }
+
+  public close() {
+    this.deferredOpen = null;
+    if (this.iframe) {
+      this.stopViewportListeners();
+      this.stopWakeLockVisibilityReacquire();
+      this.releaseWakeLock();
+      if (this.engine && typeof this.engine.disconnect === 'function') {
+        this.engine.disconnect();
+      }
+      // Restore parent scrollbars when iframe was attached to body (no container)
+      this.setParentScrollbarsHidden(false);
+      this.isFullscreenAttachment = false;
+      if (this.iframeWindow) {
+        ScenaroWidget.instancesBySource.delete(this.iframeWindow);
+        this.iframeWindow = null;
+      }
+      if (this.activeMode === 'launcher' && this.launcher) {
+        // Panel animates out and removes the iframe with it
+        this.launcher.closePanel();
+      } else {
+        this.iframe.remove();
+      }
+      this.activeMode = null;
+      this.iframe = null;
+      this.embedOrigin = null;
+      this.iframeReady = false;
+      this.rpc.reset();
+      this.peerProtocol = null;
+      // Emit 'close' event
+      this.emit('close');
+    }
+  }
+
+  /** Hide or restore scrollbars on the parent document (html + body) when iframe is fullscreen. */
+  private setParentScrollbarsHidden(hide: boolean): void {
+    const doc = document;
+    const html = doc.documentElement;
+    const body = doc.body;
+    if (hide) {
+      parentOverflow = {
+        html: html.style.overflow || '',
+        body: body.style.overflow || '',
+      };
+      html.style.overflow = 'hidden';
+      body.style.overflow = 'hidden';
+    } else if (parentOverflow) {
+      html.style.overflow = parentOverflow.html;
+      body.style.overflow = parentOverflow.body;
+      parentOverflow = null;
+    }
+  }
+
+  /** Current visible viewport height (accounts for mobile browser bar). Used for fullscreen iframe height. */
+  private getVisibleHeight(): number {
+    const vv = (window as Window & { visualViewport?: { height: number } }).visualViewport;
+    return (vv?.height ?? window.innerHeight) || window.innerHeight;
+  }
+
+  /** Apply current viewport height to iframe (fullscreen mode only). Call on resize/orientation. */
+  private applyViewportHeight(): void {
+    if (!this.iframe || !this.isFullscreenAttachment) return;
+    const h = this.getVisibleHeight();
+    this.iframe.style.height = `${h}px`;
+  }
+
+  /** Attach resize/orientation/visualViewport listeners so fullscreen iframe height tracks visible viewport. */
+  private startViewportListeners(): void {
+    if (!this.isFullscreenAttachment || this.viewportResizeHandler) return;
+    const apply = () => this.applyViewportHeight();
+    this.viewportResizeHandler = apply;
+    window.addEventListener('resize', apply);
+    window.addEventListener('orientationchange', apply);
+    const vv = (window as Window & { visualViewport?: { addEventListener: (e: string, fn: () => void) => void } }).visualViewport;
+    if (vv?.addEventListener) vv.addEventListener('resize', apply);
+    this.applyViewportHeight();
+  }
+
+  /** Remove viewport listeners. Call on close. */
+  private stopViewportListeners(): void {
+    if (!this.viewportResizeHandler) return;
+    const apply = this.viewportResizeHandler;
+    this.viewportResizeHandler = null;
+    window.removeEventListener('resize', apply);
+    window.removeEventListener('orientationchange', apply);
+    const vv = (window as Window & { visualViewport?: { removeEventListener: (e: string, fn: () => void) => void } }).visualViewport;
+    if (vv?.removeEventListener) vv.removeEventListener('resize', apply);
+  }
+
+  /** Acquire screen wake lock so device doesn't sleep while iframe is open. No-op if unsupported. */
+  private async acquireWakeLock(): Promise<void> {
+    const nav = navigator as Navigator & { wakeLock?: { request(type: 'screen'): Promise<WakeLockSentinel> } };
+    if (!nav.wakeLock) return;
+    try {
+      this.wakeLockSentinel = await nav.wakeLock.request('screen');
+    } catch {
+      // Unsupported or denied; fail silently
+    }
+  }
+
+  /** Release wake lock. Call on close. */
+  private async releaseWakeLock(): Promise<void> {
+    if (!this.wakeLockSentinel) return;
+    try {
+      await this.wakeLockSentinel.release();
+    } catch {
+      // ignore
+    }
+    this.wakeLockSentinel = null;
+  }
+
+  /** Re-acquire wake lock when tab becomes visible and iframe is still open. */
+  private startWakeLockVisibilityReacquire(): void {
+    if (this.visibilityChangeHandler) return;
+    this.visibilityChangeHandler = () => {
+      if (document.visibilityState === 'visible' && this.iframe) {
+        this.acquireWakeLock();
+      }
+    };
+    document.addEventListener('visibilitychange', this.visibilityChangeHandler);
+  }
+
+  /** Remove visibilitychange listener. Call on close. */
+  private stopWakeLockVisibilityReacquire(): void {
+    if (!this.visibilityChangeHandler) return;
+    document.removeEventListener('visibilitychange', this.visibilityChangeHandler);
+    this.visibilityChangeHandler = null;
+  }
+
+  public on<K extends ScenaroEventName>(event: K, callback: ScenaroEventListener<K>): () => void;
+  public on(event: '*', callback: ScenaroWildcardListener): () => void;
+  public on<K extends ScenaroEventName>(event: K | '*', callback: ScenaroEventListener<K> | ScenaroWildcardListener): () => void {
+    return this.events.on(event, callback);
+  }
+
+  public once<K extends ScenaroEventName>(event: K, callback: ScenaroEventListener<K>): () => void;
+  public once(event: '*', callback: ScenaroWildcardListener): () => void;
+  public once<K extends ScenaroEventName>(event: K | '*', callback: ScenaroEventListener<K> | ScenaroWildcardListener): () => void {
+    return this.events.on(event, callback, true);
+  }
+
+  public off<K extends ScenaroEventName>(event: K, callback: ScenaroEventListener<K>): void;
+  public off(event: '*', callback: ScenaroWildcardListener): void;
+  public off<K extends ScenaroEventName>(event: K | '*', callback: ScenaroEventListener<K> | ScenaroWildcardListener): void {
+    this.events.off(event, callback);
+  }
+
+  private emit<K extends ScenaroEventName>(event: K, data?: ScenaroEventMap[K]) {
+    this.events.emit(event, data as ScenaroEventMap[K]);
+  }
+
+  private detectCMS(): string | null {
+    // Simple CMS detection - can be extended later
+    if (typeof window !== 'undefined' && (window as any).Shopify) {
+      return 'shopify';
+    }
+    if (typeof window !== 'undefined' && (
+      (window as any).wc_add_to_cart_params ||
+      (window as any).woocommerce_params ||
+      document.body?.classList.contains('woocommerce-page')
+    )) {
+      // WooCommerce enqueues these params on every shop page
+      return 'woocommerce';
+    }
+    if (typeof window !== 'undefined' && (
+      (window as any).requirejs ||
+      (window as any).hyva ||
+      window.localStorage?.getItem('M2_VENIA_BROWSER_PERSISTENCE__cartId')
+    )) {
+      // Magento 2: Luma (requirejs), Hyvä, or PWA Studio (Venia keeps the cart id in localStorage)
+      return 'magento';
+    }
+    return null;
+  }
+
+  /** Connector provided by the host page; takes precedence over declared and detected connectors */
+  private registeredConnector: Connector | null = null;
+  /** Connector currently attached to the engine (prevents React Strict Mode double-mount issues) */
+  private connectorLoad: { name: string; promise: Promise<void> } | null = null;
+  /** Connector declared by the publication config, used when the iframe gives no adapter hint */
+  private declaredConnector: string | null = null;
+  /** Settles when loadEngine() is done; this.engine is still null if it failed */
+  private engineReady: Promise<void> | null = null;
+
+  /** Use a host-provided connector (headless or custom backend). Can be called before or after open(). */
+  public registerConnector(connector: Connector): void {
+    if (!isConnector(connector)) {
+      console.error('[Scenaro] registerConnector: object does not implement the Connector interface');
+      this.emitError('CONNECTOR_INVALID', 'Registered connector does not implement the Connector interface');
+      return;
+    }
+    this.registeredConnector = connector;
+    console.log(`[Scenaro] Registered connector: ${connector.name}`);
+    if (this.engine) {
+      this.useRegisteredConnector();
+    }
+  }
+
+  private useRegisteredConnector(): void {
+    if (typeof this.engine.setConnector === 'function') {
+      this.engine.setConnector(this.registeredConnector);
+    } else {
+      console.warn(`[Scenaro] Engine ${this.engine.name} does not accept custom connectors`);
+    }
+  }
+
+  /** Load the connector for a capability, once the engine is ready. Rejects if it cannot be loaded. */
+  private async loadAdapter(adapterName: string): Promise<void> {
+    if (this.engineReady) {
+      await this.engineReady;
+    }
+    if (!this.engine) {
+      throw new Error('Engine not loaded');
+    }
+    if (this.registeredConnector) {
+      // Host-provided connector wins over any adapter hint or detection
+      return;
+    }
+    await this.attachConnector(adapterName);
+  }
+
+  private attachConnector(connectorName: string): Promise<void> {
+    // Skip if connector already loaded or loading
+    if (this.connectorLoad?.name === connectorName) {
+      return this.connectorLoad.promise;
+    }
+
+    const promise = (async () => {
+      let connectorModule: any;
+      try {
+        connectorModule = await this.importModule('connectors', connectorName);
+      } catch (error) {
+        console.error(`[Scenaro] Failed to load connector ${connectorName}:`, error);
+        this.emitError('CONNECTOR_UNKNOWN', `Unknown connector: ${connectorName}`, error);
+        throw error;
+      }
+
+      if (!isConnector(connectorModule.connector)) {
+        this.emitError('CONNECTOR_INVALID', `Connector module "${connectorName}" does not export a valid connector`);
+        throw new Error(`Invalid connector: ${connectorName}`);
+      }
+      if (this.registeredConnector) {
+        // Registered while this one was loading
+        return;
+      }
+      if (typeof this.engine.setConnector === 'function') {
+        this.engine.setConnector(connectorModule.connector);
+      }
+      console.log(`[Scenaro] Loaded connector: ${connectorName}`);
+    })();
+
+    this.connectorLoad = { name: connectorName, promise };
+    promise.catch(() => {
+      // Allow a later retry
+      if (this.connectorLoad?.promise === promise) {
+        this.connectorLoad = null;
+      }
+    });
+    return promise;
+  }
+
+  /** Import an engine or connector bundle from the CDN. Names map to file names, so they are validated first. */
+  private importModule(kind: 'engines' | 'connectors', name: string): Promise<any> {
+    if (!MODULE_NAME_PATTERN.test(name)) {
+      return Promise.reject(new Error(`Invalid ${kind} name: ${name}`));
+    }
+    const localModule = ScenaroWidget.localModules.get(`${kind}/${name}`);
+    if (localModule) {
+      return Promise.resolve(localModule);
+    }
+    const moduleUrl = `${this.getCDNBaseUrl()}/${kind}/${name}.js`;
+    // Runtime URL: keep the host app's bundler (npm build) from trying to resolve it
+    return import(/* @vite-ignore */ /* webpackIgnore: true */ moduleUrl);
+  }
+
+  private async handleCapabilityRequest(payload: CapabilityRequest): Promise<Pick<CapabilityResponse, 'capabilities' | 'protocol'>> {
+    if (payload.protocol && !this.peerProtocol) {
+      this.negotiateProtocol(payload.protocol);
+    }
+
+    // Publication config (declared connector) is resolved while loading the engine
+    if (this.engineReady) {
+      await this.engineReady;
+    }
+
+    // Resolve adapter: registered connector, payload.adapter hint, the publication's connector, or detect CMS
+    const adapter = this.registeredConnector?.name || payload.adapter || this.declaredConnector || this.detectCMS();
+
+    const capabilities: Record<string, boolean> = {};
+
+    // For each requested capability, try to load and mark as available
+    for (const capability of payload.capabilities) {
+      if (CONNECTOR_CAPABILITIES.includes(capability) && adapter) {
+        try {
+          await this.loadAdapter(adapter);
+          // cart only needs a connector; the others depend on its optional methods
+          capabilities[capability] = capability === 'cart' || this.engine.supports?.(capability) === true;
+        } catch (error) {
+          console.warn(`[Scenaro] Failed to load ${capability} capability with adapter ${adapter}:`, error);
+          capabilities[capability] = false;
+        }
+      } else {
+        capabilities[capability] = false; // Unknown capability or no adapter
+      }
+    }
+
+    this.emit('capabilityResolved', { adapter, capabilities });
+    return { capabilities, protocol: this.localProtocol() };
+  }
+
+  private async createIframe(publicationId?: string, mode: ScenaroDisplayMode = 'auto') {
+    const id = publicationId ?? this.publicationId;
+    const iframe = document.createElement('iframe');
+    iframe.id = this.iframeId;
+
+    if (!id) {
+      console.warn('[Scenaro] No publication ID available, cannot create iframe');
+      return;
+    }
+
+    // Build stable embed URL (CloudFront rewrites /{uuid} to API path)
+    const url = embedUrlFor(this.environment.embedUrl, id);
+
+    if (!this.allowedOrigins.includes(url.origin)) {
+      console.error(`[Scenaro] Embed origin ${url.origin} is not in the allowed origins, cannot create iframe`);
+      return;
+    }
+    this.embedOrigin = url.origin;
+
+    // Add language from metadata if available
+    if (this.metadata.language) {
+      url.searchParams.append('language', this.metadata.language);
+    }
+
+    iframe.src = url.toString();
+    // No microphone without personalization consent
+    iframe.allow = iframePermissions(this.consent?.current() ?? null);
+    iframe.style.border = 'none';
+    iframe.style.zIndex = '2147483647';
+
+    this.activeMode = mode;
+    if (mode === 'launcher') {
+      const launcher = this.getLauncher();
+      launcher.mount();
+      launcher.openPanel(iframe);
+      this.iframe = iframe;
+      this.registerIframeWindow();
+      this.acquireWakeLock();
+      this.startWakeLockVisibilityReacquire();
+      return;
+    }
+
+    // Prefer #scenaro-container so iframe is in-page (not fullscreen). Wait for it if not yet in DOM.
+    const container = mode === 'fullscreen' ? null : await this.getContainerOrWait();
+    if (!container && mode === 'inline') {
+      console.warn(`[Scenaro] Container ${this.container} not found, falling back to fullscreen`);
+    }
+    if (container) {
+      Object.assign(iframe.style, { width: '100%', height: '100%', display: 'block' });
+      container.appendChild(iframe);
+    } else {
+      const visibleHeight = this.getVisibleHeight();
+      Object.assign(iframe.style, {
+        position: 'fixed',
+        top: '0',
+        left: '0',
+        width: '100vw',
+        height: `${visibleHeight}px`,
+      });
+      this.setParentScrollbarsHidden(true);
+      this.isFullscreenAttachment = true;
+      document.body.appendChild(iframe);
+      this.iframe = iframe;
+      this.startViewportListeners();
+    }
+
+    this.iframe = iframe;
+    this.registerIframeWindow();
+    this.acquireWakeLock();
+    this.startWakeLockVisibilityReacquire();
+  }
+
+  /** Route messages from the iframe window (available once attached to the DOM) to this instance. */
+  private registerIframeWindow(): void {
+    if (!this.iframe?.contentWindow) return;
+    this.iframeWindow = this.iframe.contentWindow;
+    ScenaroWidget.instancesBySource.set(this.iframeWindow, this);
+  }
+
+  /** Wait briefly for the container (e.g. React mount) so iframe can be in-page, not fullscreen. */
+  private getContainerOrWait(): Promise<HTMLElement | null> {
+    const container = this.container;
+    if (typeof container !== 'string') return Promise.resolve(container);
+    const find = () => document.querySelector<HTMLElement>(container);
+    const existing = find();
+    if (existing) return Promise.resolve(existing);
+
+    const maxWait = 800;
+    const interval = 50;
+    return new Promise((resolve) => {
+      const deadline = Date.now() + maxWait;
+      const check = () => {
+        const el = find();
+        if (el) {
+          resolve(el);
+          return;
+        }
+        if (Date.now() >= deadline) {
+          resolve(null);
+          return;
+        }
+        setTimeout(check, interval);
+      };
+      setTimeout(check, interval);
+    });
+  }
+
+  private loadEngine(publicationId?: string): Promise<void> {
+      this.engineReady = this.createEngine(publicationId ?? this.publicationId);
+      return this.engineReady;
+  }
+
+  /** Resolve the publication config, then load its engine and (if declared) its connector. */
+  private async createEngine(id: string): Promise<void> {
+      if (!id) {
+          console.warn('[Scenaro] No publication ID available, cannot load engine');
+          return;
+      }
+
+      const config = await this.fetchPublicationConfig(id);
+      const engineName = config?.engine || DEFAULT_ENGINE;
+      this.declaredConnector = config?.connector || null;
+      
+      try {
+          const engineModule = await this.importModule('engines', engineName);
+          const engine = typeof engineModule.createEngine === 'function' ? engineModule.createEngine() : null;
+          
+          if (!isEngine(engine)) {
+              console.error(`[Scenaro] Engine module does not export a valid engine: ${engineName}`);
+              this.emitError('ENGINE_INVALID', `Engine module "${engineName}" does not export a valid createEngine()`);
+              return;
+          }
+          
+          this.engine = engine;
+          this.connectorLoad = null;
+          this.listenToEngine();
+          if (this.registeredConnector) {
+              this.useRegisteredConnector();
+          }
+          
+          if (this.iframe) {
+              this.engine.setIframe(this.iframe, this.embedOrigin);
+          }
+          
+          await this.engine.initialize(id);
+          if (this.iframeReady) {
+              // Iframe was ready before the engine finished loading
+              this.engine.connect();
+          }
+      } catch (error) {
+          console.error(`[Scenaro] Failed to load engine ${engineName}:`, error);
+          this.emitError('ENGINE_UNKNOWN', `Unknown engine: ${engineName}`, error);
+          return;
+      }
+
+      if (this.declaredConnector && !this.registeredConnector) {
+          try {
+              await this.attachConnector(this.declaredConnector);
+          } catch {
+              // error event already emitted; engine keeps its own connector detection
+          }
+      }
+  }
+
+  /** Fetch the publication config (engine, connector). Returns null on failure so defaults apply. */
+  private async fetchPublicationConfig(publicationId: string): Promise<Partial<PublicationConfig> | null> {
+      if (ScenaroWidget.localPublication) {
+          return ScenaroWidget.localPublication;
+      }
+      try {
+          const response = await fetch(`${this.getAPIBaseUrl()}/v1/public/publications/${encodeURIComponent(publicationId)}`);
+          if (!response.ok) {
+              throw new Error(`HTTP ${response.status}`);
+          }
+          return await response.json();
+      } catch (error) {
+          console.warn('[Scenaro] Failed to fetch publication config, using defaults:', error);
+          return null;
+      }
+  }
+
+  private emitError(code: ScenaroErrorCode, message: string, cause?: unknown): void {
+      const event: ScenaroErrorEvent = { code, message, ...(cause !== undefined && { cause }) };
+      this.emit('error', event);
+  }
+
+  /** Forward engine notifications to the iframe and re-emit them through Scenaro.on */
+  private listenToEngine(): void {
+      if (typeof this.engine.setCartChangeListener === 'function') {
+          this.engine.setCartChangeListener((cart: NormalizedCart) => {
+              this.postToIframe({ type: 'SCENARO_CART_CHANGED', data: cart });
+              this.emit('cartChanged', cart);
+          });
+      }
+  }
+
+  private getCDNBaseUrl(): string {
+      return this.environment.cdnUrl;
+  }
+
+  private getAPIBaseUrl(): string {
+      return this.environment.apiUrl;
+  }
+
+  /** Only messages posted by our own iframe window, from the embed origin, are trusted. */
+  private isTrustedMessage(event: MessageEvent): boolean {
+      if (!this.iframe || !this.embedOrigin) return false;
+      return event.source === this.iframe.contentWindow && event.origin === this.embedOrigin;
+  }
+
+  /** Post a message to the iframe, restricted to the embed origin. */
+  private postToIframe<T extends { type: string }>(message: T): void {
+      // Only message types the iframe announced it accepts (all of them for legacy iframes)
+      if (!peerAccepts(this.peerProtocol, message.type)) return;
+      if (this.iframe?.contentWindow && this.embedOrigin) {
+          this.iframe.contentWindow.postMessage(message, this.embedOrigin);
+      }
+  }
+
+  private handleMessage(event: MessageEvent) {
+      if (!this.isTrustedMessage(event)) return;
+
+      const payload = event.data as ScenaroEventPayload;
+      if (!payload || typeof payload !== 'object') return;
+
+      // Capability and cart requests are answered through the RPC channel
+      if (this.rpc.dispatch(payload as RpcRequest)) return;
+
+      switch (payload.type) {
+          case 'SCENARO_READY':
+              console.log('[Scenaro] Iframe is ready');
+              this.iframeReady = true;
+              this.negotiateProtocol(payload.protocol);
+              this.sendHandshake();
+              this.emit('ready');
+              // Send metadata to iframe when it's ready
+              this.sendMetadataToIframe();
+              if (this.engine) {
+                  this.engine.connect();
+              }
+              break;
+          case 'SCENARO_END':
+              this.emit('end', payload.data);
+              if (this.engine) {
+                  this.engine.onEnd();
+              }
+              this.close();
+              break;
+          case 'SCENARO_REDIRECT':
+              if (payload.url && typeof payload.url === 'string') {
+                  this.handleRedirect(payload.url, payload.target);
+              }
+              break;
+      }
+  }
+
+  /** Validate a redirect from the iframe, let the host intercept it ('redirect' event), then navigate. */
+  private handleRedirect(rawUrl: string, requestedTarget?: ScenaroRedirectTarget): void {
+    const url = resolveRedirectUrl(rawUrl, this.redirectConfig);
+    if (!url) {
+      console.warn(`[Scenaro] Redirect blocked by redirect policy: ${rawUrl}`);
+      this.emitError('REDIRECT_BLOCKED', `Redirect URL not allowed: ${rawUrl}`);
+      return;
+    }
+    addAttribution(url, this.redirectConfig, this.publicationId);
+
+    const target = requestedTarget === '_blank' || requestedTarget === '_self'
+      ? requestedTarget
+      : this.redirectConfig.target ?? '_self';
+    let prevented = false;
+    const event: ScenaroRedirectEvent = {
+      url: url.toString(),
+      target,
+      preventDefault: () => {
+        prevented = true;
+      },
+      get defaultPrevented() {
+        return prevented;
+      },
+    };
+    this.emit('redirect', event);
+    if (event.defaultPrevented) return;
+
+    if (target === '_blank') {
+      window.open(event.url, '_blank', 'noopener');
+    } else {
+      window.location.assign(event.url);
+    }
+  }
+
+  private sendMetadataToIframe() {
+    const consent = this.consent?.current();
+    if (this.iframe && (Object.keys(this.metadata).length > 0 || consent)) {
+      this.postToIframe({
+        type: 'SCENARO_METADATA',
+        metadata: this.metadata,
+        ...(consent && { consent })
+      });
+      this.emit('metadataSent', { ...this.metadata });
+    }
+  }
+
+  /** Protocol announced to the iframe: version and every message type this SDK handles */
+  private localProtocol(): ScenaroProtocolInfo {
+    return { version: PROTOCOL_VERSION, messages: [...BASE_ACCEPTED_MESSAGES, ...this.rpc.types()] };
+  }
+
+  /** Record the iframe's protocol. An incompatible major version is reported, then only common messages are used. */
+  private negotiateProtocol(announced: unknown): void {
+    const protocol = parseProtocol(announced);
+    if (!protocol) {
+      if (announced !== undefined) {
+        console.warn('[Scenaro] Ignoring malformed protocol announcement from iframe:', announced);
+      }
+      return;
+    }
+    this.peerProtocol = protocol;
+    if (!isCompatible(protocol)) {
+      console.error(`[Scenaro] Iframe protocol ${protocol.version} is incompatible with SDK protocol ${PROTOCOL_VERSION}`);
+      this.emitError(
+        'PROTOCOL_INCOMPATIBLE',
+        `Iframe protocol ${protocol.version} is incompatible with SDK protocol ${PROTOCOL_VERSION}; only messages supported by both are exchanged`
+      );
+    }
+  }
+
+  private sendHandshake(): void {
+    const handshake: ScenaroHandshake = {
+      type: 'SCENARO_HANDSHAKE',
+      protocol: this.localProtocol(),
+      compatible: !this.peerProtocol || isCompatible(this.peerProtocol),
+    };
+    this.postToIframe(handshake);
+  }
+
+  private registerRpcRoutes(): void {
+    this.rpc.register<CapabilityRequest>('SCENARO_CAPABILITY_REQUEST', {
+      responseType: 'SCENARO_CAPABILITY_RESPONSE',
+      handler: (request) => this.handleCapabilityRequest(request),
+      failure: () => ({ capabilities: {} }),
+      // Loads the engine and connector bundles
+      timeoutMs: 20000,
+    });
+
+    for (const [type, timeoutMs] of Object.entries(CART_REQUEST_TIMEOUTS)) {
+      this.rpc.register<CartRequest>(type, {
+        responseType: 'SCENARO_CART_RESPONSE',
+        handler: (request, context) => this.handleCartRequest(request, context),
+        failure: (error): CartResult => ({ success: false, error }),
+        timeoutMs,
+        onResponse: (response) => this.emit('cartResponse', response as CartResponse),
+        // The iframe already got a TIMEOUT error: push the resulting cart so it is not out of sync
+        onLateResult: (result) => {
+          if (result.data) {
+            this.postToIframe({ type: 'SCENARO_CART_CHANGED', data: result.data });
+          }
+        },
+      });
+    }
+
+    for (const [type, timeoutMs] of Object.entries(CATALOG_REQUEST_TIMEOUTS)) {
+      this.rpc.register<CatalogRequest>(type, {
+        responseType: 'SCENARO_CATALOG_RESPONSE',
+        handler: (request) => this.handleCatalogRequest(request),
+        failure: (error): CatalogResult => ({ success: false, error }),
+        timeoutMs,
+      });
+    }
+
+    for (const [type, timeoutMs] of Object.entries(WISHLIST_REQUEST_TIMEOUTS)) {
+      this.rpc.register<WishlistRequest>(type, {
+        responseType: 'SCENARO_WISHLIST_RESPONSE',
+        handler: (request) => this.handleWishlistRequest(request),
+        failure: (error): WishlistResult => ({ success: false, error }),
+        timeoutMs,
+        // A move to cart that completes after the TIMEOUT still changed the cart
+        onLateResult: (result) => {
+          if (result.cart) {
+            this.postToIframe({ type: 'SCENARO_CART_CHANGED', data: result.cart });
+          }
+        },
+      });
+    }
+  }
+
+  /** Forward a cart request to the engine; without one, answer CONNECTOR_UNAVAILABLE so the iframe does not wait. */
+  private async handleCartRequest(request: CartRequest, context: RpcContext): Promise<CartResult> {
+    this.emit('cartRequest', request);
+    if (!this.engine || typeof this.engine.handleCartRequest !== 'function') {
+      console.warn('[Scenaro] Engine does not support cart requests');
+      return { success: false, error: { code: 'CONNECTOR_UNAVAILABLE', message: 'Cart engine not ready' } };
+    }
+    return this.engine.handleCartRequest(request, context.progress);
+  }
+
+  /** Forward a catalog request to the engine (CONNECTOR_UNAVAILABLE when it has no catalog support). */
+  private async handleCatalogRequest(request: CatalogRequest): Promise<CatalogResult> {
+    if (!this.engine || typeof this.engine.handleCatalogRequest !== 'function') {
+      console.warn('[Scenaro] Engine does not support catalog requests');
+      return { success: false, error: { code: 'CONNECTOR_UNAVAILABLE', message: 'Catalog engine not ready' } };
+    }
+    return this.engine.handleCatalogRequest(request);
+  }
+
+  /** Forward a wishlist request to the engine (CONNECTOR_UNAVAILABLE when it has no wishlist support). */
+  private async handleWishlistRequest(request: WishlistRequest): Promise<WishlistResult> {
+    if (!this.engine || typeof this.engine.handleWishlistRequest !== 'function') {
+      console.warn('[Scenaro] Engine does not support wishlist requests');
+      return { success: false, error: { code: 'CONNECTOR_UNAVAILABLE', message: 'Wishlist engine not ready' } };
+    }
+    return this.engine.handleWishlistRequest(request);
+  }
+
+  public updateMetadata(metadata: Record<string, any>) {
+    this.metadata = { ...this.metadata, ...metadata };
+    // Send updated metadata to iframe if it's already open
+    if (this.iframe) {
+      this.sendMetadataToIframe();
+    }
+  }
+
+  private handleLanguageChange() {
+    // Get current language from localStorage or detect from browser
+    const savedLanguage = localStorage.getItem('preferredLanguage');
+    const browserLang = navigator.language || (navigator as any).userLanguage;
+    const language = savedLanguage || (browserLang.startsWith('fr') ? 'fr' : 'en');
+    
+    // Update metadata with language
+    this.updateMetadata({ language });
+  }
+}
@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { ConnectorError } from '../../errors';
+import { Connector, NormalizedCart } from '../../types';
+import { CommerceEngine } from './index';
+
+// Connector without batchCart: one call per operation; product "404" is out of stock
+function perCallConnector() {
+  const items = new Map<string, number>();
+  const cart = (): NormalizedCart => ({
+    items: [...items].map(([id, qty]) => ({ itemId: `item-${id}`, productId: id, name: `Product ${id}`, qty, unitPrice: 1000, linePrice: 1000 * qty })),
+    itemCount: [...items.values()].reduce((sum, qty) => sum + qty, 0),
+    currency: 'EUR',
+    totals: { subtotal: 0, grandTotal: 0 }
+  });
+  const idOf = (itemId: string | number) => String(itemId).replace('item-', '');
+
+  return {
+    name: 'per-call',
+    refreshCart: vi.fn(async () => {}),
+    listCart: vi.fn(async () => cart()),
+    addToCart: vi.fn(async ({ productId, qty = 1 }) => {
+      if (productId === '404') throw new ConnectorError('OUT_OF_STOCK', 'Out of stock');
+      items.set(String(productId), (items.get(String(productId)) ?? 0) + qty);
+      return cart();
+    }),
+    updateCart: vi.fn(async ({ itemId, qty }) => {
+      items.set(idOf(itemId), qty);
+      return cart();
+    }),
+    removeCart: vi.fn(async ({ itemId }) => {
+      items.delete(idOf(itemId));
+      return cart();
+    })
+  } satisfies Connector;
+}
+
+function batchRequest(operations: any[], rollback?: boolean) {
+  return { type: 'SCENARO_CART_BATCH_REQUEST' as const, requestId: 'batch-1', data: { operations, rollback } };
+}
+
+describe('CommerceEngine cart batches', () => {
+  it('calls the connector per operation without refresh, then refreshes once', async () => {
+    const connector = perCallConnector();
+    const engine = new CommerceEngine();
+    engine.setConnector(connector);
+
+    const result = await engine.handleCartRequest(batchRequest([
+      { op: 'add', data: { productId: '1' } },
+      { op: 'add', data: { productId: '2', qty: 2 } },
+      { op: 'update', data: { itemId: 'item-1', qty: 3 } }
+    ]));
+
+    expect(result.success).toBe(true);
+    expect(result.data?.itemCount).toBe(5);
+    expect(connector.addToCart).toHaveBeenCalledWith({ productId: '2', qty: 2 }, { skipRefresh: true });
+    expect(connector.updateCart).toHaveBeenCalledWith({ itemId: 'item-1', qty: 3 }, { skipRefresh: true });
+    expect(connector.refreshCart).toHaveBeenCalledTimes(1);
+  });
+
+  it('rolls back without refresh, then refreshes once', async () => {
+    const connector = perCallConnector();
+    const engine = new CommerceEngine();
+    engine.setConnector(connector);
+    await connector.addToCart({ productId: '1' });
+
+    const result = await engine.handleCartRequest(batchRequest([
+      { op: 'add', data: { productId: '2' } },
+      { op: 'update', data: { itemId: 'item-1', qty: 4 } },
+      { op: 'add', data: { productId: '404' } }
+    ], true));
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('OUT_OF_STOCK');
+    expect(result.results?.map((entry) => entry.rolledBack)).toEqual([true, true, undefined]);
+    expect(result.data?.items).toEqual([expect.objectContaining({ itemId: 'item-1', qty: 1 })]);
+    expect(connector.removeCart).toHaveBeenCalledWith({ itemId: 'item-2' }, { skipRefresh: true });
+    expect(connector.updateCart).toHaveBeenLastCalledWith({ itemId: 'item-1', qty: 1 }, { skipRefresh: true });
+    expect(connector.refreshCart).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves the refresh to connectors with batchCart', async () => {
+    const base = perCallConnector();
+    const connector = {
+      ...base,
+      batchCart: vi.fn(async () => ({ cart: await base.listCart(), results: [{ op: 'add' as const, success: true }] }))
+    };
+    const engine = new CommerceEngine();
+    engine.setConnector(connector);
+
+    const result = await engine.handleCartRequest(batchRequest([{ op: 'add', data: { productId: '1' } }]));
+
+    expect(result.success).toBe(true);
+    expect(connector.batchCart).toHaveBeenCalledTimes(1);
+    expect(connector.addToCart).not.toHaveBeenCalled();
+    expect(connector.refreshCart).not.toHaveBeenCalled();
+  });
+
+  it('refreshes the host cart when the conversation ends', async () => {
+    const connector = perCallConnector();
+    const engine = new CommerceEngine();
+    engine.setConnector(connector);
+
+    await engine.onEnd();
+
+    expect(connector.refreshCart).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,17 +1,106 @@
+import { restoreOperations, runCartOperations } from '../../connectors/batch';
 import { MagentoConnector } from '../../connectors/magento';
-import { CartRequest, CartResponse, Connector, Engine } from '../../types';
+import { ShopifyConnector } from '../../connectors/shopify';
+import { WooCommerceConnector } from '../../connectors/woocommerce';
+import { ConnectorError, toCartError } from '../../errors';
+import {
+  CartBatchRequest,
+  CartCallOptions,
+  CartError,
+  CartOperation,
+  CartOperationResult,
+  CartProgress,
+  CartRequest,
+  CartResult,
+  CatalogRequest,
+  CatalogResult,
+  Connector,
+  Engine,
+  NormalizedCart,
+  ProductQuery,
+  WishlistRequest,
+  WishlistResult
+} from '../../types';
+
+/** Quantities must be whole numbers (0 allowed for updates, where it removes the line) */
+function isValidQty(qty: unknown, min: number): boolean {
+  return typeof qty === 'number' && Number.isInteger(qty) && qty >= min;
+}
+
+function isValidCouponCode(code: unknown): code is string {
+  return typeof code === 'string' && code.trim().length > 0 && code.length <= 255;
+}
+
+/** A product query needs at least one non-empty key */
+function isValidProductQuery(query: ProductQuery | undefined): boolean {
+  return !!query && [query.sku, query.productId, query.handle].some((value) => (
+    typeof value === 'number' ? Number.isFinite(value) : typeof value === 'string' && value.trim().length > 0
+  ));
+}
+
+/** Search results per request: default and maximum */
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+
+/** Most operations accepted in one batch request */
+const MAX_BATCH_OPERATIONS = 50;
+
+/** Why a batch request cannot run (checked before any operation), or null when it is valid */
+function invalidBatch(data: CartBatchRequest['data'] | undefined): CartError | null {
+  const operations = data?.operations;
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return { code: 'INVALID_REQUEST', message: 'Missing operations' };
+  }
+  if (operations.length > MAX_BATCH_OPERATIONS) {
+    return { code: 'INVALID_REQUEST', message: `At most ${MAX_BATCH_OPERATIONS} operations per batch` };
+  }
+  for (const [index, operation] of operations.entries()) {
+    if (!operation?.data || !['add', 'update', 'remove'].includes(operation.op)) {
+      return { code: 'INVALID_REQUEST', message: `Invalid operation at index ${index}` };
+    }
+    const qty = (operation.data as { qty?: unknown }).qty;
+    if (operation.op === 'add' ? qty !== undefined && !isValidQty(qty, 1) : operation.op === 'update' && !isValidQty(qty, 0)) {
+      return { code: 'INVALID_QTY', message: `Invalid quantity at index ${index}: ${qty}` };
+    }
+  }
+  return null;
+}
+
+/** Identity of a cart for change detection (raw platform data excluded) */
+function cartSignature(cart: NormalizedCart): string {
+  const { raw: _raw, ...rest } = cart;
+  return JSON.stringify(rest);
+}
 
 export class CommerceEngine implements Engine {
   name = 'commerce';
   private connector: Connector | null = null;
-  private iframe: HTMLIFrameElement | null = null;
+  private connected = false;
+  private unwatchCart: (() => void) | null = null;
+  private cartChangeListener: ((cart: NormalizedCart) => void) | null = null;
+  /** Last cart sent to the iframe, so change events are not repeated for carts it already has */
+  private lastCartSignature: string | null = null;
+  /** Cart requests in flight; their responses carry the new cart, so change events are held back */
+  private pendingCartRequests = 0;
 
   constructor() {
     // In a real implementation, we might detect the platform dynamically
     // For this MVP, we default to Magento or allow config injection
     // Simple detection logic:
-    if (typeof window !== 'undefined' && (window as any).requirejs) {
-       // Very rough heuristic for Magento 2
+    if (typeof window !== 'undefined' && (window as any).Shopify) {
+       this.connector = ShopifyConnector;
+    } else if (typeof window !== 'undefined' && (
+      (window as any).wc_add_to_cart_params ||
+      (window as any).woocommerce_params ||
+      document.body?.classList.contains('woocommerce-page')
+    )) {
+       this.connector = WooCommerceConnector;
+    } else if (typeof window !== 'undefined' && (
+      (window as any).requirejs ||
+      (window as any).hyva ||
+      window.localStorage?.getItem('M2_VENIA_BROWSER_PERSISTENCE__cartId')
+    )) {
+       // Magento 2: Luma (requirejs), Hyvä, or PWA Studio; the connector picks its cart backend
        this.connector = MagentoConnector;
     }
   }
@@ -26,6 +115,69 @@ export class CommerceEngine implements Engine {
       console.warn('[Scenaro] No CMS connector detected.');
       return;
     }
+
+    this.connected = true;
+    if (this.connector.watchCart && !this.unwatchCart) {
+      try {
+        const unwatch = await this.connector.watchCart((cart) => this.handleCartChanged(cart));
+        if (this.connected) {
+          this.unwatchCart = unwatch;
+        } else {
+          // Disconnected while subscribing
+          unwatch();
+        }
+      } catch (error) {
+        console.warn('[Scenaro] Could not watch cart changes:', error);
+      }
+    }
+  }
+
+  disconnect(): void {
+    this.connected = false;
+    if (this.unwatchCart) {
+      this.unwatchCart();
+      this.unwatchCart = null;
+    }
+  }
+
+  setConnector(connector: Connector) {
+      const wasConnected = this.connected;
+      this.disconnect();
+      this.connector = connector;
+      if (wasConnected) {
+          // Already connected to the iframe: start watching with the new connector
+          this.connect();
+      }
+  }
+
+  /** Optional capabilities depend on the connector's optional methods */
+  supports(capability: string): boolean {
+      if (capability === 'coupon') {
+          return typeof this.connector?.applyCoupon === 'function';
+      }
+      if (capability === 'catalog') {
+          return typeof this.connector?.getProduct === 'function';
+      }
+      if (capability === 'wishlist') {
+          return typeof this.connector?.listWishlist === 'function';
+      }
+      return false;
+  }
+
+  setCartChangeListener(listener: (cart: NormalizedCart) => void) {
+      this.cartChangeListener = listener;
+  }
+
+  private handleCartChanged(cart: NormalizedCart) {
+    if (this.pendingCartRequests > 0) return;
+    const signature = cartSignature(cart);
+    if (signature === this.lastCartSignature) return;
+    this.lastCartSignature = signature;
+
+    // The widget posts SCENARO_CART_CHANGED (if the iframe accepts it) and emits cartChanged
+    if (this.cartChangeListener) {
+      this.cartChangeListener(cart);
+    }
   }
 
   async onEnd(): Promise<void> {
@@ -34,20 +186,22 @@ export class CommerceEngine implements Engine {
       }
   }
 
-  setIframe(iframe: HTMLIFrameElement) {
-      this.iframe = iframe;
-  }
+  // Messages to the iframe go through the widget, which applies the negotiated protocol
+  setIframe(_iframe: HTMLIFrameElement, _targetOrigin: string | null) {}
 
-  async handleCartRequest(payload: CartRequest): Promise<void> {
+  async handleCartRequest(payload: CartRequest, onProgress?: (progress: CartProgress) => void): Promise<CartResult> {
     if (!this.connector) {
-      this.sendCartResponse(payload.requestId, false, null, 'No CMS connector detected');
-      return;
+      return this.cartResult(false, null, {
+        code: 'CONNECTOR_UNAVAILABLE',
+        message: 'No CMS connector detected'
+      });
     }
 
+    this.pendingCartRequests++;
     try {
-      let result: any = null;
+      let result: NormalizedCart | null = null;
       let success = true;
-      let error: string | undefined = undefined;
+      let error: CartError | undefined = undefined;
 
       switch (payload.type) {
         case 'SCENARO_CART_LIST_REQUEST':
@@ -55,81 +209,293 @@ export class CommerceEngine implements Engine {
             result = await this.connector.listCart();
           } else {
             success = false;
-            error = 'listCart method not available';
+            error = { code: 'CONNECTOR_UNAVAILABLE', message: 'listCart method not available' };
           }
           break;
 
         case 'SCENARO_CART_ADD_REQUEST':
-          if (this.connector.addToCart && payload.data) {
-            result = await this.connector.addToCart({
-              productId: payload.data.productId,
-              qty: payload.data.qty
-            });
-          } else {
+          if (!this.connector.addToCart) {
             success = false;
-            error = 'addToCart method not available or missing data';
+            error = { code: 'CONNECTOR_UNAVAILABLE', message: 'addToCart method not available' };
+          } else if (!payload.data) {
+            success = false;
+            error = { code: 'INVALID_REQUEST', message: 'Missing data' };
+          } else if (payload.data.qty !== undefined && !isValidQty(payload.data.qty, 1)) {
+            success = false;
+            error = { code: 'INVALID_QTY', message: `Invalid quantity: ${payload.data.qty}` };
+          } else {
+            // Forward option selections (super_attribute, options, bundle_option, links) as-is
+            result = await this.connector.addToCart(payload.data);
           }
           break;
 
         case 'SCENARO_CART_UPDATE_REQUEST':
-          if (this.connector.updateCart && payload.data) {
+          if (!this.connector.updateCart) {
+            success = false;
+            error = { code: 'CONNECTOR_UNAVAILABLE', message: 'updateCart method not available' };
+          } else if (!payload.data) {
+            success = false;
+            error = { code: 'INVALID_REQUEST', message: 'Missing data' };
+          } else if (!isValidQty(payload.data.qty, 0)) {
+            success = false;
+            error = { code: 'INVALID_QTY', message: `Invalid quantity: ${payload.data.qty}` };
+          } else {
             result = await this.connector.updateCart({
               itemId: payload.data.itemId,
               qty: payload.data.qty
             });
-          } else {
-            success = false;
-            error = 'updateCart method not available or missing data';
           }
           break;
 
         case 'SCENARO_CART_REMOVE_REQUEST':
-          if (this.connector.removeCart && payload.data) {
+          if (!this.connector.removeCart) {
+            success = false;
+            error = { code: 'CONNECTOR_UNAVAILABLE', message: 'removeCart method not available' };
+          } else if (!payload.data) {
+            success = false;
+            error = { code: 'INVALID_REQUEST', message: 'Missing data' };
+          } else {
             result = await this.connector.removeCart({
               itemId: payload.data.itemId
             });
-          } else {
-            success = false;
-            error = 'removeCart method not available or missing data';
           }
           break;
 
         case 'SCENARO_CART_CLEAR_REQUEST':
           if (this.connector.clearCart) {
-            await this.connector.clearCart();
-            result = { cleared: true };
+            result = await this.connector.clearCart(onProgress);
+          } else {
+            success = false;
+            error = { code: 'CONNECTOR_UNAVAILABLE', message: 'clearCart method not available' };
+          }
+          break;
+
+        case 'SCENARO_COUPON_APPLY_REQUEST':
+          if (!this.connector.applyCoupon) {
+            success = false;
+            error = { code: 'CONNECTOR_UNAVAILABLE', message: 'applyCoupon method not available' };
+          } else if (!isValidCouponCode(payload.data?.code)) {
+            success = false;
+            error = { code: 'INVALID_REQUEST', message: 'Missing or invalid coupon code' };
           } else {
+            result = await this.connector.applyCoupon(payload.data.code.trim());
+          }
+          break;
+
+        case 'SCENARO_COUPON_REMOVE_REQUEST':
+          if (!this.connector.removeCoupon) {
             success = false;
-            error = 'clearCart method not available';
+            error = { code: 'CONNECTOR_UNAVAILABLE', message: 'removeCoupon method not available' };
+          } else if (payload.data?.code !== undefined && !isValidCouponCode(payload.data.code)) {
+            success = false;
+            error = { code: 'INVALID_REQUEST', message: 'Invalid coupon code' };
+          } else {
+            result = await this.connector.removeCoupon(payload.data?.code?.trim());
           }
           break;
 
+        case 'SCENARO_CART_BATCH_REQUEST': {
+          const invalid = invalidBatch(payload.data);
+          if (invalid) {
+            return this.cartResult(false, null, invalid);
+          }
+          const connector = this.connector;
+          let batch: { cart: NormalizedCart | null; results: CartOperationResult[] };
+          try {
+            batch = await this.runBatch(connector, payload.data, onProgress);
+          } finally {
+            // The fallback's calls (batch and rollback) skipped their minicart refresh
+            if (!connector.batchCart) {
+              await connector.refreshCart();
+            }
+          }
+          const failure = batch.results.find((entry) => entry.error);
+          return this.cartResult(!failure, batch.cart, failure?.error, batch.results);
+        }
+
         default:
           success = false;
-          error = `Unknown cart request type: ${(payload as any).type}`;
+          error = { code: 'INVALID_REQUEST', message: `Unknown cart request type: ${(payload as any).type}` };
       }
 
-      this.sendCartResponse(payload.requestId, success, result, error);
-    } catch (err: any) {
-      const errorMessage = err?.message || 'Unknown error occurred';
+      return this.cartResult(success, result, error);
+    } catch (err) {
       console.error('[Scenaro] Error handling cart request:', err);
-      this.sendCartResponse(payload.requestId, false, null, errorMessage);
+      return this.cartResult(false, null, toCartError(err));
+    } finally {
+      this.pendingCartRequests--;
+    }
+  }
+
+  /** Catalog lookups do not touch the cart: no pending count, no cart signature */
+  async handleCatalogRequest(payload: CatalogRequest): Promise<CatalogResult> {
+    if (!this.connector) {
+      return { success: false, data: null, error: { code: 'CONNECTOR_UNAVAILABLE', message: 'No CMS connector detected' } };
+    }
+
+    try {
+      switch (payload.type) {
+        case 'SCENARO_CATALOG_GET_REQUEST':
+          if (!this.connector.getProduct) {
+            return { success: false, data: null, error: { code: 'CONNECTOR_UNAVAILABLE', message: 'getProduct method not available' } };
+          }
+          if (!isValidProductQuery(payload.data)) {
+            return { success: false, data: null, error: { code: 'INVALID_REQUEST', message: 'Missing sku, productId or handle' } };
+          }
+          return { success: true, data: await this.connector.getProduct(payload.data) };
+
+        case 'SCENARO_CATALOG_SEARCH_REQUEST': {
+          if (!this.connector.searchProducts) {
+            return { success: false, data: null, error: { code: 'CONNECTOR_UNAVAILABLE', message: 'searchProducts method not available' } };
+          }
+          const query = payload.data?.query;
+          if (typeof query !== 'string' || !query.trim()) {
+            return { success: false, data: null, error: { code: 'INVALID_REQUEST', message: 'Missing search query' } };
+          }
+          const limit = payload.data.limit ?? DEFAULT_SEARCH_LIMIT;
+          if (!isValidQty(limit, 1)) {
+            return { success: false, data: null, error: { code: 'INVALID_REQUEST', message: `Invalid limit: ${limit}` } };
+          }
+          return { success: true, data: await this.connector.searchProducts(query.trim(), Math.min(limit, MAX_SEARCH_LIMIT)) };
+        }
+
+        default:
+          return { success: false, data: null, error: { code: 'INVALID_REQUEST', message: `Unknown catalog request type: ${(payload as any).type}` } };
+      }
+    } catch (err) {
+      console.error('[Scenaro] Error handling catalog request:', err);
+      return { success: false, data: null, error: toCartError(err) };
+    }
+  }
+
+  /** Wishlist requests; moving an item to the cart is handled like a cart request (pending count, cart signature) */
+  async handleWishlistRequest(payload: WishlistRequest): Promise<WishlistResult> {
+    const connector = this.connector;
+    if (!connector) {
+      return { success: false, data: null, error: { code: 'CONNECTOR_UNAVAILABLE', message: 'No CMS connector detected' } };
+    }
+    const unavailable = (method: string): WishlistResult => ({
+      success: false,
+      data: null,
+      error: { code: 'CONNECTOR_UNAVAILABLE', message: `${method} method not available` }
+    });
+    const invalid = (error: CartError): WishlistResult => ({ success: false, data: null, error });
+
+    try {
+      switch (payload.type) {
+        case 'SCENARO_WISHLIST_LIST_REQUEST':
+          if (!connector.listWishlist) return unavailable('listWishlist');
+          return { success: true, data: await connector.listWishlist() };
+
+        case 'SCENARO_WISHLIST_ADD_REQUEST':
+          if (!connector.addToWishlist) return unavailable('addToWishlist');
+          if (!payload.data || payload.data.productId === undefined) {
+            return invalid({ code: 'INVALID_REQUEST', message: 'Missing productId' });
+          }
+          if (payload.data.qty !== undefined && !isValidQty(payload.data.qty, 1)) {
+            return invalid({ code: 'INVALID_QTY', message: `Invalid quantity: ${payload.data.qty}` });
+          }
+          return { success: true, data: await connector.addToWishlist(payload.data) };
+
+        case 'SCENARO_WISHLIST_REMOVE_REQUEST':
+          if (!connector.removeFromWishlist) return unavailable('removeFromWishlist');
+          if (payload.data?.itemId === undefined) {
+            return invalid({ code: 'INVALID_REQUEST', message: 'Missing itemId' });
+          }
+          return { success: true, data: await connector.removeFromWishlist({ itemId: payload.data.itemId }) };
+
+        case 'SCENARO_WISHLIST_MOVE_TO_CART_REQUEST': {
+          if (!connector.moveWishlistToCart) return unavailable('moveWishlistToCart');
+          if (payload.data?.itemId === undefined) {
+            return invalid({ code: 'INVALID_REQUEST', message: 'Missing itemId' });
+          }
+          if (payload.data.qty !== undefined && !isValidQty(payload.data.qty, 1)) {
+            return invalid({ code: 'INVALID_QTY', message: `Invalid quantity: ${payload.data.qty}` });
+          }
+          this.pendingCartRequests++;
+          try {
+            const { wishlist, cart } = await connector.moveWishlistToCart({ itemId: payload.data.itemId, qty: payload.data.qty });
+            this.lastCartSignature = cartSignature(cart);
+            return { success: true, data: wishlist, cart };
+          } finally {
+            this.pendingCartRequests--;
+          }
+        }
+
+        default:
+          return invalid({ code: 'INVALID_REQUEST', message: `Unknown wishlist request type: ${(payload as any).type}` });
+      }
+    } catch (err) {
+      console.error('[Scenaro] Error handling wishlist request:', err);
+      return { success: false, data: null, error: toCartError(err) };
     }
   }
 
-  private sendCartResponse(requestId: string, success: boolean, data: any, error?: string) {
-    if (this.iframe && this.iframe.contentWindow) {
-      const response: CartResponse = {
-        type: 'SCENARO_CART_RESPONSE',
-        requestId,
-        success,
-        data,
-        error
-      };
-      this.iframe.contentWindow.postMessage(response, '*'); // In production, replace '*' with specific origin
+  /** Run a batch (connector's batchCart, else one call per operation), rolling back on failure if asked */
+  private async runBatch(
+    connector: Connector,
+    { operations, rollback }: CartBatchRequest['data'],
+    onProgress?: (progress: CartProgress) => void
+  ): Promise<{ cart: NormalizedCart | null; results: CartOperationResult[] }> {
+    if (rollback && !connector.listCart) {
+      throw new ConnectorError('CONNECTOR_UNAVAILABLE', 'Rollback needs listCart');
+    }
+    const snapshot = rollback ? await connector.listCart!() : null;
+    const batch = await this.runOperations(connector, operations, onProgress);
+    if (!snapshot || !batch.results.some((entry) => entry.error)) {
+      return batch;
+    }
+
+    // Reset the completed operations' changes (a single batch as well)
+    const current = batch.cart ?? await connector.listCart!();
+    const undo = restoreOperations(snapshot, current);
+    const restored = undo.length > 0 ? await this.runOperations(connector, undo) : { cart: current, results: [] };
+    if (restored.results.every((entry) => entry.success)) {
+      console.log('[Scenaro] ↩️ Batch rolled back');
+      batch.results.forEach((entry) => {
+        if (entry.success) entry.rolledBack = true;
+      });
+    } else {
+      console.warn('[Scenaro] Batch rollback incomplete:', restored.results);
     }
+    return { cart: restored.cart, results: batch.results };
+  }
+
+  private async runOperations(
+    connector: Connector,
+    operations: CartOperation[],
+    onProgress?: (progress: CartProgress) => void
+  ): Promise<{ cart: NormalizedCart | null; results: CartOperationResult[] }> {
+    if (connector.batchCart) {
+      return connector.batchCart(operations, onProgress);
+    }
+
+    // Fallback: one connector call per operation, without minicart refresh; the cart is the last one returned
+    let cart: NormalizedCart | null = null;
+    const results = await runCartOperations(operations, async (operation) => {
+      const method = { add: 'addToCart', update: 'updateCart', remove: 'removeCart' }[operation.op] as 'addToCart' | 'updateCart' | 'removeCart';
+      const run = connector[method] as ((data: any, options?: CartCallOptions) => Promise<NormalizedCart>) | undefined;
+      if (!run) {
+        throw new ConnectorError('CONNECTOR_UNAVAILABLE', `${method} method not available`);
+      }
+      cart = await run.call(connector, operation.data, { skipRefresh: true });
+    }, onProgress);
+    if (!cart && connector.listCart) {
+      cart = await connector.listCart();
+    }
+    return { cart, results };
+  }
+
+  /** Result sent by the widget as SCENARO_CART_RESPONSE; its cart is what the iframe now has */
+  private cartResult(success: boolean, data: NormalizedCart | null, error?: CartError, results?: CartOperationResult[]): CartResult {
+    if (data) {
+      this.lastCartSignature = cartSignature(data);
+    }
+    return { success, data, error, ...(results && { results }) };
   }
 }
 
-// Export a singleton or factory
-export const engine = new CommerceEngine();
+// Entry point used by the widget loader (engines/{name}.js must export createEngine)
+export function createEngine(): Engine {
+  return new CommerceEngine();
+}
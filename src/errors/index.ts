@@ -0,0 +1,31 @@
+import { CartError, CartErrorCode } from '../types';
+
+/** Error thrown by connectors; carries the code sent back to the iframe in CartResponse.error */
+export class ConnectorError extends Error implements CartError {
+  code: CartErrorCode;
+  details?: Record<string, any>;
+
+  constructor(code: CartErrorCode, message: string, details?: Record<string, any>) {
+    super(message);
+    this.name = 'ConnectorError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/** Convert anything thrown while handling a cart request to the CartError sent to the iframe. */
+export function toCartError(error: unknown): CartError {
+  if (error instanceof ConnectorError) {
+    return {
+      code: error.code,
+      message: error.message,
+      ...(error.details && { details: error.details })
+    };
+  }
+  // fetch() rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+    return { code: 'NETWORK', message: error.message };
+  }
+  const message = (error as any)?.message || 'Unknown error occurred';
+  return { code: 'UNKNOWN', message };
+}
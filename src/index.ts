@@ -0,0 +1,13 @@
+// npm / ESM entry: no side effects on import. The script tag build (./widget) wraps the same core.
+import { ScenaroWidget } from './core/widget';
+import { ScenaroCreateConfig, ScenaroHandle } from './types';
+
+export * from './types';
+
+/**
+ * Create a widget instance with explicit config. Nothing is rendered and no listener is
+ * installed until this is called; handle.destroy() removes everything it added.
+ */
+export function createScenaro(config: ScenaroCreateConfig): ScenaroHandle {
+  return ScenaroWidget.create(config);
+}
@@ -0,0 +1,31 @@
+// Test helpers (widget-sdk/testing): in-memory connector and iframe simulator, no network needed.
+import * as commerceEngine from '../engines/commerce';
+import * as mockConnector from '../connectors/mock';
+import { ScenaroWidget } from '../core/widget';
+import { PublicationConfig } from '../types';
+
+export { CommerceEngine } from '../engines/commerce';
+export { createMockConnector, MOCK_CATALOG } from '../connectors/mock';
+export type { MockConnector, MockConnectorOptions, MockOperation, MockProduct } from '../connectors/mock';
+export { IframeSimulator } from './simulator';
+export type { IframeSimulatorOptions, SimulatedMessage } from './simulator';
+
+/**
+ * Serve the commerce engine and the mock connector in-process, so widgets never import them from the CDN,
+ * and stub the publication config (commerce engine) so nothing is fetched from the API.
+ */
+export function useLocalModules(): void {
+  ScenaroWidget.provideModule('engines', 'commerce', commerceEngine);
+  ScenaroWidget.provideModule('connectors', 'mock', mockConnector);
+  ScenaroWidget.providePublication({ engine: 'commerce' });
+}
+
+/** Provide any other engine or connector module in-process (e.g. a connector under test). */
+export function provideModule(kind: 'engines' | 'connectors', name: string, module: any): void {
+  ScenaroWidget.provideModule(kind, name, module);
+}
+
+/** Serve this publication config instead of fetching it (e.g. `{ connector: 'mock' }`); null fetches it from the API again. */
+export function providePublication(config: Partial<PublicationConfig> | null): void {
+  ScenaroWidget.providePublication(config);
+}
@@ -0,0 +1,172 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createScenaro } from '../index';
+import { PROTOCOL_VERSION } from '../core/protocol';
+import { ScenaroHandle } from '../types';
+import { createMockConnector, IframeSimulator, MockConnector, useLocalModules } from './index';
+
+describe('IframeSimulator with the mock connector', () => {
+  let connector: MockConnector;
+  let scenaro: ScenaroHandle;
+  let iframe: IframeSimulator;
+
+  beforeEach(async () => {
+    useLocalModules();
+    // The stubbed publication must keep the SDK off the network
+    vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new Error('unexpected fetch'))));
+
+    connector = createMockConnector();
+    scenaro = createScenaro({ publicationId: 'test', mode: 'fullscreen', consent: { provider: () => true } });
+    scenaro.registerConnector(connector);
+    scenaro.open();
+
+    iframe = await IframeSimulator.attach();
+    iframe.ready();
+    await iframe.waitFor('SCENARO_HANDSHAKE');
+  });
+
+  afterEach(() => {
+    iframe.detach();
+    scenaro.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  it('answers the handshake with the local protocol', async () => {
+    const handshake = await iframe.waitFor('SCENARO_HANDSHAKE');
+    expect(handshake.protocol?.version).toBe(PROTOCOL_VERSION);
+    expect(handshake.compatible).toBe(true);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('reports the capabilities of the registered connector', async () => {
+    const response = await iframe.requestCapabilities(['cart', 'coupon', 'catalog', 'wishlist', 'teleport']);
+    expect(response.capabilities).toEqual({ cart: true, coupon: true, catalog: true, wishlist: true, teleport: false });
+  });
+
+  it('lists, adds, updates and removes cart items', async () => {
+    expect((await iframe.listCart()).data?.items).toEqual([]);
+
+    const added = await iframe.addToCart({ productId: '1002', qty: 2 });
+    expect(added.success).toBe(true);
+    expect(added.data?.itemCount).toBe(2);
+    const itemId = added.data!.items[0].itemId;
+
+    const updated = await iframe.updateCart(itemId, 3);
+    expect(updated.data?.items[0].qty).toBe(3);
+
+    const removed = await iframe.removeFromCart(itemId);
+    expect(removed.data?.itemCount).toBe(0);
+  });
+
+  it('returns connector errors in the cart response', async () => {
+    const outOfStock = await iframe.addToCart({ productId: '1004' });
+    expect(outOfStock.success).toBe(false);
+    expect(outOfStock.error?.code).toBe('OUT_OF_STOCK');
+
+    connector.failNext('addToCart', 'SESSION_EXPIRED');
+    expect((await iframe.addToCart({ productId: '1002' })).error?.code).toBe('SESSION_EXPIRED');
+  });
+
+  it('clears the cart', async () => {
+    await iframe.addToCart({ productId: '1002' });
+    await iframe.addToCart({ productId: '1003' });
+    const cleared = await iframe.clearCart();
+    expect(cleared.success).toBe(true);
+    expect(cleared.data?.items).toEqual([]);
+  });
+
+  it('applies and removes coupons', async () => {
+    await iframe.addToCart({ productId: '1002' });
+
+    const applied = await iframe.applyCoupon('WELCOME10');
+    expect(applied.data?.coupons).toEqual(['WELCOME10']);
+    expect(applied.data?.totals.discount).toBe(340);
+
+    expect((await iframe.applyCoupon('NOPE')).error?.code).toBe('COUPON_INVALID');
+
+    const removed = await iframe.removeCoupon('WELCOME10');
+    expect(removed.data?.coupons).toEqual([]);
+  });
+
+  it('runs batches and rolls them back on failure', async () => {
+    const batch = await iframe.batch([
+      { op: 'add', data: { productId: '1002' } },
+      { op: 'add', data: { productId: '1003' } }
+    ]);
+    expect(batch.success).toBe(true);
+    expect(batch.data?.itemCount).toBe(2);
+
+    const failed = await iframe.batch([
+      { op: 'add', data: { productId: '1002' } },
+      { op: 'add', data: { productId: '1004' } }
+    ], true);
+    expect(failed.success).toBe(false);
+    expect(failed.error?.code).toBe('OUT_OF_STOCK');
+    expect(failed.results?.[0].rolledBack).toBe(true);
+    expect(failed.data?.itemCount).toBe(2);
+  });
+
+  it('looks up and searches products', async () => {
+    const product = await iframe.getProduct({ sku: 'MJ01' });
+    expect(product.success).toBe(true);
+    expect(product.data).toMatchObject({ productId: '1001', name: 'Beaumont Summit Kit' });
+
+    const search = await iframe.searchProducts('tank');
+    expect(search.success).toBe(true);
+    expect(search.data).toEqual([expect.objectContaining({ productId: '1002' })]);
+
+    expect((await iframe.getProduct({ productId: '9999' })).error?.code).toBe('PRODUCT_NOT_FOUND');
+  });
+
+  it('adds, removes and moves wishlist items', async () => {
+    const added = await iframe.addToWishlist({ productId: '1002' });
+    expect(added.success).toBe(true);
+    expect(added.data?.items).toHaveLength(1);
+
+    const listed = await iframe.listWishlist();
+    const itemId = listed.data!.items[0].itemId;
+
+    const moved = await iframe.moveWishlistToCart(itemId, 2);
+    expect(moved.success).toBe(true);
+    expect(moved.data?.items).toEqual([]);
+    expect(moved.cart?.itemCount).toBe(2);
+
+    await iframe.addToWishlist({ productId: '1003' });
+    const removed = await iframe.removeFromWishlist((await iframe.listWishlist()).data!.items[0].itemId);
+    expect(removed.data?.items).toEqual([]);
+  });
+
+  it('requires a login for guest wishlists', async () => {
+    connector.setLoggedIn(false);
+    const response = await iframe.listWishlist();
+    expect(response.success).toBe(false);
+    expect(response.error?.code).toBe('LOGIN_REQUIRED');
+  });
+
+  it('pushes host cart changes to the iframe', async () => {
+    await iframe.listCart();
+    connector.hostAdd('1002');
+    const changed = await iframe.waitFor('SCENARO_CART_CHANGED');
+    expect(changed.data.itemCount).toBe(1);
+  });
+
+  it('does not push cart changes to an iframe that did not announce them', async () => {
+    iframe.send({
+      type: 'SCENARO_READY',
+      protocol: { version: PROTOCOL_VERSION, messages: ['SCENARO_HANDSHAKE', 'SCENARO_CART_RESPONSE'] }
+    });
+    await iframe.listCart();
+    const changed = new Promise((resolve) => scenaro.once('cartChanged', resolve));
+    connector.hostAdd('1002');
+    await changed;
+    expect(iframe.received('SCENARO_CART_CHANGED')).toEqual([]);
+  });
+
+  it('closes the widget when the conversation ends', async () => {
+    const ended = vi.fn();
+    scenaro.on('end', ended);
+    iframe.end({ reason: 'done' });
+    expect(ended).toHaveBeenCalledWith({ reason: 'done' });
+    expect(document.querySelector('iframe[id^="scenaro-iframe"]')).toBeNull();
+  });
+});
@@ -0,0 +1,247 @@
+import {
+  CapabilityResponse,
+  CartAddParams,
+  CartOperation,
+  CartResponse,
+  CatalogResponse,
+  ProductQuery,
+  ScenaroEventPayload,
+  ScenaroEventType,
+  ScenaroProtocolInfo,
+  ScenaroRedirectTarget,
+  WishlistResponse
+} from '../types';
+
+export interface IframeSimulatorOptions {
+  /** Origin the simulated iframe posts from; must be an allowed origin (default: https://embed.scenaro.io) */
+  origin?: string;
+  /** Announced in SCENARO_READY; false simulates a legacy iframe */
+  protocol?: ScenaroProtocolInfo | false;
+  /** How long request helpers wait for the response (default: 5000ms) */
+  timeoutMs?: number;
+}
+
+/** Message received from the SDK */
+export type SimulatedMessage = ScenaroEventPayload & Record<string, any>;
+
+const DEFAULT_PROTOCOL: ScenaroProtocolInfo = {
+  version: '1.4',
+  messages: [
+    'SCENARO_HANDSHAKE',
+    'SCENARO_METADATA',
+    'SCENARO_CART_RESPONSE',
+    'SCENARO_CART_CHANGED',
+    'SCENARO_CAPABILITY_RESPONSE',
+    'SCENARO_CATALOG_RESPONSE',
+    'SCENARO_WISHLIST_RESPONSE',
+    'SCENARO_RPC_ACK',
+    'SCENARO_RPC_PROGRESS'
+  ]
+};
+
+/**
+ * Plays the iframe's side of the protocol against a widget instance, without loading the embed:
+ * messages to the SDK are dispatched on the parent window as if posted by the iframe (source and
+ * origin set), and messages from the SDK are captured by replacing the iframe window's postMessage.
+ * Meant for jsdom/vitest and same-origin local pages.
+ */
+export class IframeSimulator {
+  /** Every message the SDK posted to the iframe, in order */
+  readonly messages: SimulatedMessage[] = [];
+  private iframe: HTMLIFrameElement | null = null;
+  private originalPostMessage: Window['postMessage'] | null = null;
+  private waiters: Set<{ match: (message: SimulatedMessage) => boolean; resolve: (message: SimulatedMessage) => void }> = new Set();
+  private requestCount = 0;
+  private origin: string;
+  private protocol: ScenaroProtocolInfo | false;
+  private timeoutMs: number;
+
+  constructor(options: IframeSimulatorOptions = {}) {
+    this.origin = options.origin ?? 'https://embed.scenaro.io';
+    this.protocol = options.protocol ?? DEFAULT_PROTOCOL;
+    this.timeoutMs = options.timeoutMs ?? 5000;
+  }
+
+  /** Wait for a widget iframe (by id, default: the first scenaro-iframe-N) and attach to it. */
+  static async attach(iframeId?: string, options: IframeSimulatorOptions = {}): Promise<IframeSimulator> {
+    const simulator = new IframeSimulator(options);
+    const iframe = await new Promise<HTMLIFrameElement>((resolve, reject) => {
+      const find = () => (iframeId
+        ? document.getElementById(iframeId)
+        : document.querySelector('iframe[id^="scenaro-iframe"]')) as HTMLIFrameElement | null;
+      const existing = find();
+      if (existing) {
+        resolve(existing);
+        return;
+      }
+      const observer = new MutationObserver(() => {
+        const found = find();
+        if (found) {
+          observer.disconnect();
+          clearTimeout(timer);
+          resolve(found);
+        }
+      });
+      const timer = setTimeout(() => {
+        observer.disconnect();
+        reject(new Error(`[Scenaro] Iframe ${iframeId ?? 'scenaro-iframe'} did not appear`));
+      }, simulator.timeoutMs);
+      observer.observe(document.documentElement, { childList: true, subtree: true });
+    });
+    simulator.attachTo(iframe);
+    return simulator;
+  }
+
+  /** Capture messages posted to this iframe window. */
+  attachTo(iframe: HTMLIFrameElement): void {
+    const contentWindow = iframe.contentWindow;
+    if (!contentWindow) {
+      throw new Error('[Scenaro] Iframe has no window (not attached to the document)');
+    }
+    this.detach();
+    this.iframe = iframe;
+    this.originalPostMessage = contentWindow.postMessage;
+    (contentWindow as any).postMessage = (message: SimulatedMessage) => this.receive(message);
+  }
+
+  /** Restore the iframe window's postMessage. */
+  detach(): void {
+    if (this.iframe?.contentWindow && this.originalPostMessage) {
+      (this.iframe.contentWindow as any).postMessage = this.originalPostMessage;
+    }
+    this.iframe = null;
+    this.originalPostMessage = null;
+  }
+
+  /** Post a raw message to the SDK as the iframe. */
+  send(message: Record<string, any>): void {
+    if (!this.iframe?.contentWindow) {
+      throw new Error('[Scenaro] Simulator is not attached to an iframe');
+    }
+    window.dispatchEvent(new MessageEvent('message', {
+      data: message,
+      origin: this.origin,
+      source: this.iframe.contentWindow
+    }));
+  }
+
+  ready(): void {
+    this.send({ type: 'SCENARO_READY', ...(this.protocol && { protocol: this.protocol }) });
+  }
+
+  end(data?: any): void {
+    this.send({ type: 'SCENARO_END', data });
+  }
+
+  redirect(url: string, target?: ScenaroRedirectTarget): void {
+    this.send({ type: 'SCENARO_REDIRECT', url, ...(target && { target }) });
+  }
+
+  requestCapabilities(capabilities: string[], adapter?: string): Promise<CapabilityResponse> {
+    return this.request('SCENARO_CAPABILITY_REQUEST', 'SCENARO_CAPABILITY_RESPONSE', {
+      capabilities,
+      ...(adapter && { adapter })
+    });
+  }
+
+  listCart(): Promise<CartResponse> {
+    return this.request('SCENARO_CART_LIST_REQUEST', 'SCENARO_CART_RESPONSE');
+  }
+
+  addToCart(data: CartAddParams): Promise<CartResponse> {
+    return this.request('SCENARO_CART_ADD_REQUEST', 'SCENARO_CART_RESPONSE', { data });
+  }
+
+  updateCart(itemId: string | number, qty: number): Promise<CartResponse> {
+    return this.request('SCENARO_CART_UPDATE_REQUEST', 'SCENARO_CART_RESPONSE', { data: { itemId, qty } });
+  }
+
+  removeFromCart(itemId: string | number): Promise<CartResponse> {
+    return this.request('SCENARO_CART_REMOVE_REQUEST', 'SCENARO_CART_RESPONSE', { data: { itemId } });
+  }
+
+  clearCart(): Promise<CartResponse> {
+    return this.request('SCENARO_CART_CLEAR_REQUEST', 'SCENARO_CART_RESPONSE');
+  }
+
+  applyCoupon(code: string): Promise<CartResponse> {
+    return this.request('SCENARO_COUPON_APPLY_REQUEST', 'SCENARO_CART_RESPONSE', { data: { code } });
+  }
+
+  removeCoupon(code?: string): Promise<CartResponse> {
+    return this.request('SCENARO_COUPON_REMOVE_REQUEST', 'SCENARO_CART_RESPONSE', { data: code ? { code } : {} });
+  }
+
+  batch(operations: CartOperation[], rollback = false): Promise<CartResponse> {
+    return this.request('SCENARO_CART_BATCH_REQUEST', 'SCENARO_CART_RESPONSE', { data: { operations, rollback } });
+  }
+
+  getProduct(query: ProductQuery): Promise<CatalogResponse> {
+    return this.request('SCENARO_CATALOG_GET_REQUEST', 'SCENARO_CATALOG_RESPONSE', { data: query });
+  }
+
+  searchProducts(query: string, limit?: number): Promise<CatalogResponse> {
+    return this.request('SCENARO_CATALOG_SEARCH_REQUEST', 'SCENARO_CATALOG_RESPONSE', { data: { query, limit } });
+  }
+
+  listWishlist(): Promise<WishlistResponse> {
+    return this.request('SCENARO_WISHLIST_LIST_REQUEST', 'SCENARO_WISHLIST_RESPONSE');
+  }
+
+  addToWishlist(data: CartAddParams): Promise<WishlistResponse> {
+    return this.request('SCENARO_WISHLIST_ADD_REQUEST', 'SCENARO_WISHLIST_RESPONSE', { data });
+  }
+
+  removeFromWishlist(itemId: string | number): Promise<WishlistResponse> {
+    return this.request('SCENARO_WISHLIST_REMOVE_REQUEST', 'SCENARO_WISHLIST_RESPONSE', { data: { itemId } });
+  }
+
+  moveWishlistToCart(itemId: string | number, qty?: number): Promise<WishlistResponse> {
+    return this.request('SCENARO_WISHLIST_MOVE_TO_CART_REQUEST', 'SCENARO_WISHLIST_RESPONSE', { data: { itemId, qty } });
+  }
+
+  /** Send a request and resolve with its response (matched by requestId). */
+  request<T = any>(type: ScenaroEventType | string, responseType: ScenaroEventType | string, fields: Record<string, any> = {}): Promise<T> {
+    const requestId = `sim_${++this.requestCount}`;
+    const response = this.waitFor(responseType, (message) => message.requestId === requestId);
+    this.send({ type, requestId, sentAt: Date.now(), ...fields });
+    return response as Promise<T>;
+  }
+
+  /** Resolve with the next (or an already received) message of this type matching the predicate. */
+  waitFor(type: ScenaroEventType | string, predicate: (message: SimulatedMessage) => boolean = () => true, timeoutMs = this.timeoutMs): Promise<SimulatedMessage> {
+    const match = (message: SimulatedMessage) => message.type === type && predicate(message);
+    const received = this.messages.find(match);
+    if (received) return Promise.resolve(received);
+
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        match,
+        resolve: (message: SimulatedMessage) => {
+          clearTimeout(timer);
+          resolve(message);
+        }
+      };
+      const timer = setTimeout(() => {
+        this.waiters.delete(waiter);
+        reject(new Error(`[Scenaro] No ${type} received within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.waiters.add(waiter);
+    });
+  }
+
+  /** Messages of one type received so far */
+  received(type: ScenaroEventType | string): SimulatedMessage[] {
+    return this.messages.filter((message) => message.type === type);
+  }
+
+  private receive(message: SimulatedMessage): void {
+    this.messages.push(message);
+    for (const waiter of [...this.waiters]) {
+      if (waiter.match(message)) {
+        this.waiters.delete(waiter);
+        waiter.resolve(message);
+      }
+    }
+  }
+}
@@ -4,10 +4,230 @@ export interface PublicationConfig {
   connector?: string;
 }
 
+/**
+ * How the iframe is displayed:
+ * - auto: in #scenaro-container if present, otherwise fullscreen (default)
+ * - inline: in #scenaro-container
+ * - fullscreen: fixed overlay covering the viewport
+ * - launcher: floating launcher bubble opening a corner panel (fullscreen on mobile)
+ */
+export type ScenaroDisplayMode = 'auto' | 'inline' | 'fullscreen' | 'launcher';
+
+/** Launcher mode panel layout. Sizes and offsets in px. */
+export interface ScenaroPanelConfig {
+  position?: 'left' | 'right';
+  width?: number;
+  height?: number;
+  /** Distance from the left/right viewport edge */
+  offsetX?: number;
+  /** Distance from the bottom viewport edge */
+  offsetY?: number;
+  /** Launcher bubble background color */
+  launcherColor?: string;
+  /** Viewport width at or below which the panel is fullscreen */
+  mobileBreakpoint?: number;
+}
+
 export interface ScenaroOpenConfig {
   metadata?: Record<string, any>;
   /** Override publication ID for this open (default: from script tag data-publication-id) */
   publicationId?: string;
+  /** Origins the bridge trusts for this deployment (default: the embed URL's origin) */
+  allowedOrigins?: string[];
+  /** Display mode override (default: from script tag data-mode, else 'auto') */
+  mode?: ScenaroDisplayMode;
+  /** Launcher panel layout override (default: from script tag data attributes) */
+  panel?: ScenaroPanelConfig;
+}
+
+/** Config for createScenaro() / Scenaro.create(): an independent widget instance */
+export interface ScenaroCreateConfig {
+  publicationId: string;
+  /** Element or CSS selector the iframe is appended to (default: '#scenaro-container') */
+  container?: HTMLElement | string;
+  /** Display mode (default: 'inline' when container is given, else 'auto') */
+  mode?: ScenaroDisplayMode;
+  panel?: ScenaroPanelConfig;
+  allowedOrigins?: string[];
+  metadata?: Record<string, any>;
+  analytics?: ScenaroAnalyticsConfig;
+  consent?: ScenaroConsentConfig;
+  redirect?: ScenaroRedirectConfig;
+  environment?: ScenaroEnvironment;
+}
+
+/** Scenaro endpoints, for staging, a local stack or self-hosting. Unset values use production. */
+export interface ScenaroEnvironment {
+  /** Conversation iframe: {embedUrl}/{publicationId}, or a URL with a {publicationId} placeholder (default: https://embed.scenaro.io) */
+  embedUrl?: string;
+  /** Engine and connector bundles: {cdnUrl}/engines/{name}.js (default: https://cdn.scenaro.io; script tag: the folder widget.js was loaded from) */
+  cdnUrl?: string;
+  /** Publication config API (default: https://api.scenaro.io) */
+  apiUrl?: string;
+}
+
+export type ScenaroRedirectTarget = '_self' | '_blank';
+
+/**
+ * SCENARO_REDIRECT policy. Only http(s) URLs on the page's origin or an allowed host are followed;
+ * the cancellable 'redirect' event lets the host route them itself (SPA router).
+ */
+export interface ScenaroRedirectConfig {
+  /** Extra hosts redirects may go to (https only, unless the page is http); '*.example.com' matches subdomains */
+  allowedHosts?: string[];
+  /** Default target when the iframe does not ask for one (default: '_self') */
+  target?: ScenaroRedirectTarget;
+  /** Attribution parameters added to the URL (existing ones are kept). true: utm_source=scenaro, utm_medium=conversation, utm_campaign=publication ID */
+  utm?: boolean | Record<string, string>;
+}
+
+/**
+ * Consent gating. When configured, open() waits for the site's consent before creating the iframe:
+ * the host provider if given, else TCF v2 (__tcfapi), Cookiebot or OneTrust.
+ */
+export interface ScenaroConsentConfig {
+  /** What open() does without functional consent: 'block' (default) returns, 'defer' opens once consent is given */
+  whenMissing?: 'block' | 'defer';
+  /** Host-supplied consent (custom CMP); replaces CMP detection */
+  provider?: () => ScenaroConsent | boolean | Promise<ScenaroConsent | boolean>;
+}
+
+/** Shopper consent by purpose. A boolean provider answer grants or denies all of them. */
+export interface ScenaroConsent {
+  /** Load the conversation iframe (third-party functional content) */
+  functional: boolean;
+  /** Personalised experience, including voice: the iframe only gets microphone access with it */
+  personalization: boolean;
+  analytics: boolean;
+}
+
+/** Consent forwarded to the iframe in SCENARO_METADATA */
+export interface ScenaroConsentState extends ScenaroConsent {
+  source: 'tcf' | 'cookiebot' | 'onetrust' | 'provider' | 'host' | 'none';
+}
+
+/** Built-in analytics destinations: window.dataLayer (GTM), gtag() (GA4), analytics.track() (Segment) */
+export type ScenaroAnalyticsAdapterName = 'dataLayer' | 'gtag' | 'segment';
+
+/**
+ * Analytics forwarding. Events are not sent until consent allows it:
+ * - 'granted' (default): send immediately
+ * - 'pending': queue until setAnalyticsConsent(true); dropped on setAnalyticsConsent(false)
+ * - function: checked before each event, which is dropped when it returns false
+ */
+export interface ScenaroAnalyticsConfig {
+  adapters?: ScenaroAnalyticsAdapterName[];
+  /** Receives every analytics event (any other tool) */
+  callback?: (event: ScenaroAnalyticsEvent) => void;
+  consent?: 'granted' | 'pending' | (() => boolean);
+}
+
+/** GA4 ecommerce item (prices in major units) */
+export interface ScenaroAnalyticsItem {
+  item_id: string;
+  item_name?: string;
+  item_variant?: string;
+  sku?: string;
+  price?: number;
+  quantity: number;
+}
+
+/**
+ * Analytics event, GA4 naming:
+ * scenaro_open, scenaro_ready (time_to_ready_ms), scenaro_end, scenaro_close, scenaro_redirect (url),
+ * add_to_cart / remove_from_cart (currency, value, items)
+ */
+export interface ScenaroAnalyticsEvent {
+  name: string;
+  params: Record<string, any>;
+}
+
+/** Payload of each event emitted through on() */
+export interface ScenaroEventMap {
+  open: undefined;
+  ready: undefined;
+  close: undefined;
+  /** Data sent by the iframe with SCENARO_END */
+  end: any;
+  error: ScenaroErrorEvent;
+  /** Iframe asked the host page to navigate */
+  redirect: ScenaroRedirectEvent;
+  /** Cart request received from the iframe, before it is handled */
+  cartRequest: CartRequest;
+  /** Cart response sent back to the iframe */
+  cartResponse: CartResponse;
+  /** Capabilities answered to a SCENARO_CAPABILITY_REQUEST */
+  capabilityResolved: ScenaroCapabilityEvent;
+  /** Metadata posted to the iframe (SCENARO_METADATA) */
+  metadataSent: Record<string, any>;
+  /** open() was blocked or deferred because functional consent is missing */
+  consentRequired: ScenaroConsentState;
+  cartChanged: NormalizedCart;
+}
+
+export type ScenaroEventName = keyof ScenaroEventMap;
+
+export type ScenaroEventListener<K extends ScenaroEventName> = (data: ScenaroEventMap[K]) => void;
+
+/** Argument of '*' listeners: any event with its name */
+export type ScenaroAnyEvent = { [K in ScenaroEventName]: { type: K; data: ScenaroEventMap[K] } }[ScenaroEventName];
+
+export type ScenaroWildcardListener = (event: ScenaroAnyEvent) => void;
+
+export interface ScenaroRedirectEvent {
+  /** Validated URL, attribution parameters included */
+  url: string;
+  target: ScenaroRedirectTarget;
+  /** Cancel the SDK's navigation (e.g. to route with the host's router) */
+  preventDefault(): void;
+  readonly defaultPrevented: boolean;
+}
+
+export interface ScenaroCapabilityEvent {
+  /** Connector used for the cart capability (null when none could be resolved) */
+  adapter: string | null;
+  capabilities: Record<string, boolean>;
+}
+
+/** Widget instance API: window.Scenaro (script tag instance) and the handles returned by createScenaro() / Scenaro.create() */
+export interface ScenaroHandle {
+  open(config?: ScenaroOpenConfig): Promise<void>;
+  close(): void;
+  /** Subscribe to an event ('*' for all events); returns an unsubscribe function */
+  on<K extends ScenaroEventName>(event: K, callback: ScenaroEventListener<K>): () => void;
+  on(event: '*', callback: ScenaroWildcardListener): () => void;
+  /** Like on(), but the listener is removed after its first call */
+  once<K extends ScenaroEventName>(event: K, callback: ScenaroEventListener<K>): () => void;
+  once(event: '*', callback: ScenaroWildcardListener): () => void;
+  off<K extends ScenaroEventName>(event: K, callback: ScenaroEventListener<K>): void;
+  off(event: '*', callback: ScenaroWildcardListener): void;
+  updateMetadata(metadata: Record<string, any>): void;
+  registerConnector(connector: Connector): void;
+  /** Set consent from the host page (overrides CMP detection); a deferred open() proceeds once functional consent is given */
+  setConsent(consent: Partial<ScenaroConsent> | boolean): void;
+  /** Grant (flush queued events) or deny (drop them) analytics consent */
+  setAnalyticsConsent(granted: boolean): void;
+  /** Close and remove all DOM nodes and listeners added by this instance */
+  destroy(): void;
+}
+
+export type ScenaroErrorCode =
+  /** Engine bundle could not be loaded (unknown name or network failure) */
+  | 'ENGINE_UNKNOWN'
+  /** Engine bundle loaded but does not export a valid createEngine() */
+  | 'ENGINE_INVALID'
+  | 'CONNECTOR_UNKNOWN'
+  | 'CONNECTOR_INVALID'
+  /** SCENARO_REDIRECT URL rejected by the redirect policy */
+  | 'REDIRECT_BLOCKED'
+  /** Iframe speaks another protocol major version; only messages both sides support are exchanged */
+  | 'PROTOCOL_INCOMPATIBLE';
+
+/** Payload of the 'error' event emitted through Scenaro.on */
+export interface ScenaroErrorEvent {
+  code: ScenaroErrorCode;
+  message: string;
+  cause?: unknown;
 }
 
 export type ScenaroEventType =
@@ -19,9 +239,44 @@ export type ScenaroEventType =
   | 'SCENARO_CART_UPDATE_REQUEST'
   | 'SCENARO_CART_REMOVE_REQUEST'
   | 'SCENARO_CART_CLEAR_REQUEST'
+  | 'SCENARO_CART_BATCH_REQUEST'
+  | 'SCENARO_COUPON_APPLY_REQUEST'
+  | 'SCENARO_COUPON_REMOVE_REQUEST'
+  | 'SCENARO_CATALOG_GET_REQUEST'
+  | 'SCENARO_CATALOG_SEARCH_REQUEST'
+  | 'SCENARO_CATALOG_RESPONSE'
+  | 'SCENARO_WISHLIST_LIST_REQUEST'
+  | 'SCENARO_WISHLIST_ADD_REQUEST'
+  | 'SCENARO_WISHLIST_REMOVE_REQUEST'
+  | 'SCENARO_WISHLIST_MOVE_TO_CART_REQUEST'
+  | 'SCENARO_WISHLIST_RESPONSE'
   | 'SCENARO_CART_RESPONSE'
+  | 'SCENARO_CART_CHANGED'
   | 'SCENARO_CAPABILITY_REQUEST'
-  | 'SCENARO_CAPABILITY_RESPONSE';
+  | 'SCENARO_CAPABILITY_RESPONSE'
+  | 'SCENARO_RPC_ACK'
+  | 'SCENARO_RPC_PROGRESS'
+  | 'SCENARO_METADATA'
+  | 'SCENARO_HANDSHAKE';
+
+/**
+ * Protocol announcement exchanged in the handshake (SCENARO_READY / SCENARO_CAPABILITY_REQUEST from
+ * the iframe, SCENARO_HANDSHAKE / SCENARO_CAPABILITY_RESPONSE from the SDK).
+ * Versions are "major.minor": sides with the same major are compatible.
+ */
+export interface ScenaroProtocolInfo {
+  version: string;
+  /** Message types the sender can receive */
+  messages: string[];
+}
+
+/** SDK answer to the iframe's SCENARO_READY */
+export interface ScenaroHandshake {
+  type: 'SCENARO_HANDSHAKE';
+  protocol: ScenaroProtocolInfo;
+  /** False when the iframe's major version differs; the SDK then only sends messages the iframe listed */
+  compatible: boolean;
+}
 
 export interface ScenaroEventPayload<T = any> {
   type: ScenaroEventType;
@@ -29,6 +284,44 @@ export interface ScenaroEventPayload<T = any> {
   requestId?: string;
   /** Set when type is SCENARO_REDIRECT: URL for parent to navigate to */
   url?: string;
+  /** Set when type is SCENARO_REDIRECT: '_blank' to open in a new tab */
+  target?: ScenaroRedirectTarget;
+  /** Set when type is SCENARO_READY: iframe protocol version and accepted messages (absent for legacy iframes) */
+  protocol?: ScenaroProtocolInfo;
+}
+
+/** Any request from the iframe answered through the RPC channel (cart, capability, ...) */
+export interface RpcRequest {
+  type: string;
+  /** Unique per request; replayed ids are ignored */
+  requestId: string;
+  /** Date.now() in the iframe when sent; requests older than the stale window are rejected */
+  sentAt?: number;
+}
+
+/** Sent as soon as a request is accepted, before it is handled */
+export interface RpcAck {
+  type: 'SCENARO_RPC_ACK';
+  requestId: string;
+}
+
+/** Sent while a long request is handled (e.g. clearCart removing items one by one) */
+export interface RpcProgress {
+  type: 'SCENARO_RPC_PROGRESS';
+  requestId: string;
+  progress: CartProgress;
+}
+
+export interface CartProgress {
+  /** Units of work done so far (e.g. items removed) */
+  done: number;
+  total: number;
+}
+
+/** Options of single cart calls made by the engine */
+export interface CartCallOptions {
+  /** Skip the minicart refresh: the engine calls refreshCart() once after a batch */
+  skipRefresh?: boolean;
 }
 
 export interface CartListRequest {
@@ -36,13 +329,30 @@ export interface CartListRequest {
   requestId: string;
 }
 
+/** Option selection value: a single id/text or several ids (multiselect, checkbox) */
+export type CartOptionValue = string | number | Array<string | number>;
+
+export interface CartAddParams {
+  productId: string | number;
+  /** Product SKU; the Magento GraphQL backend adds by SKU (parent SKU for configurable products) */
+  sku?: string;
+  qty?: number;
+  /** Configurable product selections: attribute id -> option id (e.g. { 93: 52 } for color) */
+  super_attribute?: Record<string, string | number>;
+  /** Custom options: option id -> value id(s) or free text */
+  options?: Record<string, CartOptionValue>;
+  /** Bundle selections: option id -> selection id(s) */
+  bundle_option?: Record<string, CartOptionValue>;
+  /** Bundle selection quantities: option id -> qty */
+  bundle_option_qty?: Record<string, number>;
+  /** Downloadable product link ids */
+  links?: Array<string | number>;
+}
+
 export interface CartAddRequest {
   type: 'SCENARO_CART_ADD_REQUEST';
   requestId: string;
-  data: {
-    productId: string | number;
-    qty?: number;
-  };
+  data: CartAddParams;
 }
 
 export interface CartUpdateRequest {
@@ -67,12 +377,156 @@ export interface CartClearRequest {
   requestId: string;
 }
 
+/** One step of a batch request (same data as the single add/update/remove requests) */
+export type CartOperation =
+  | { op: 'add'; data: CartAddParams }
+  | { op: 'update'; data: { itemId: string | number; qty: number } }
+  | { op: 'remove'; data: { itemId: string | number } };
+
+/** Several cart operations run in order; the first failure stops the batch */
+export interface CartBatchRequest {
+  type: 'SCENARO_CART_BATCH_REQUEST';
+  requestId: string;
+  data: {
+    operations: CartOperation[];
+    /** Restore the cart as it was before the batch when an operation fails */
+    rollback?: boolean;
+  };
+}
+
+/** Apply a coupon / promotion code to the cart */
+export interface CouponApplyRequest {
+  type: 'SCENARO_COUPON_APPLY_REQUEST';
+  requestId: string;
+  data: {
+    code: string;
+  };
+}
+
+/** Remove a coupon (every applied coupon when code is omitted) */
+export interface CouponRemoveRequest {
+  type: 'SCENARO_COUPON_REMOVE_REQUEST';
+  requestId: string;
+  data?: {
+    code?: string;
+  };
+}
+
+/** Outcome of one batch operation, in request order */
+export interface CartOperationResult {
+  op: CartOperation['op'];
+  success: boolean;
+  error?: CartError;
+  /** Not run because an earlier operation failed */
+  skipped?: boolean;
+  /** Undone by the rollback */
+  rolledBack?: boolean;
+}
+
+/** Returned by Connector.batchCart */
+export interface CartBatchResult {
+  /** Cart after the batch */
+  cart: NormalizedCart;
+  results: CartOperationResult[];
+}
+
+/** Cart line item, identical for every connector. Amounts are integers in minor units (e.g. cents). */
+export interface NormalizedCartItem {
+  /** Line id to pass as itemId in update/remove requests */
+  itemId: string;
+  productId: string;
+  /** Purchased variant (Shopify variant, WooCommerce variation, Magento child product) when known */
+  variantId?: string;
+  sku?: string;
+  name: string;
+  qty: number;
+  unitPrice: number;
+  linePrice: number;
+  imageUrl?: string;
+  url?: string;
+  /** Selected options (size, color, ...) */
+  options?: Array<{ label: string; value: string }>;
+}
+
+/** Cart returned by every connector method and sent in SCENARO_CART_RESPONSE. */
+export interface NormalizedCart {
+  items: NormalizedCartItem[];
+  /** Sum of item quantities */
+  itemCount: number;
+  /** ISO 4217 code, null when the platform does not expose it */
+  currency: string | null;
+  totals: {
+    subtotal: number;
+    discount?: number;
+    tax?: number;
+    shipping?: number;
+    grandTotal: number;
+  };
+  /** Applied coupon codes, when the platform exposes them */
+  coupons?: string[];
+  /** Discount breakdown (rules, coupons); amounts are positive, totals.discount is their sum */
+  discounts?: Array<{ label: string; amount: number; code?: string }>;
+  /** Original platform cart object (escape hatch, shape depends on the connector) */
+  raw?: unknown;
+}
+
+/** Required selection that was not provided in an add request */
+export interface MissingCartOption {
+  /** Request field the selection belongs to */
+  field: 'super_attribute' | 'options' | 'bundle_option' | 'links';
+  /** Attribute / option id to use as key in that field */
+  id: string;
+  /** Attribute code (configurable products only) */
+  code?: string;
+  label: string;
+}
+
+export type CartErrorCode =
+  | 'OUT_OF_STOCK'
+  | 'INVALID_QTY'
+  | 'PRODUCT_NOT_FOUND'
+  /** Required product options were not selected; details.missingOptions lists them */
+  | 'MISSING_OPTIONS'
+  | 'SESSION_EXPIRED'
+  | 'FORM_KEY_MISSING'
+  /** No connector detected, or it does not implement the requested operation */
+  | 'CONNECTOR_UNAVAILABLE'
+  /** Request payload is malformed (e.g. missing data) */
+  | 'INVALID_REQUEST'
+  /** No answer from the connector within the request timeout */
+  | 'TIMEOUT'
+  /** Coupon code unknown, expired, or not applicable to this cart */
+  | 'COUPON_INVALID'
+  /** The operation needs a logged-in shopper (e.g. wishlist for guests) */
+  | 'LOGIN_REQUIRED'
+  | 'NETWORK'
+  | 'UNKNOWN';
+
+export interface CartError {
+  code: CartErrorCode;
+  /** Human-readable message (platform message when available) */
+  message: string;
+  /** Extra context: HTTP status, platform error code, missingOptions, ... */
+  details?: Record<string, any>;
+}
+
 export interface CartResponse {
   type: 'SCENARO_CART_RESPONSE';
   requestId: string;
   success: boolean;
-  data?: any;
-  error?: string;
+  data?: NormalizedCart | null;
+  error?: CartError;
+  /** Batch requests: one result per operation (error is the first failure) */
+  results?: CartOperationResult[];
+}
+
+/** Outcome of a cart request, sent by the RPC channel as SCENARO_CART_RESPONSE */
+export type CartResult = Pick<CartResponse, 'success' | 'data' | 'error' | 'results'>;
+
+/** Pushed to the iframe when the cart changes outside of a cart request (e.g. minicart edit) */
+export interface CartChangedEvent {
+  type: 'SCENARO_CART_CHANGED';
+  data: NormalizedCart;
 }
 
 export interface CapabilityRequest {
@@ -80,31 +534,236 @@ export interface CapabilityRequest {
   requestId: string;
   capabilities: string[];
   adapter?: string;
+  /** Iframe protocol, when the capability request arrives before (or instead of) SCENARO_READY's */
+  protocol?: ScenaroProtocolInfo;
 }
 
 export interface CapabilityResponse {
   type: 'SCENARO_CAPABILITY_RESPONSE';
   requestId: string;
   capabilities: Record<string, boolean>;
+  protocol?: ScenaroProtocolInfo;
+}
+
+/** How to find a product: sku, platform id, or handle (Shopify handle, Magento url key) */
+export interface ProductQuery {
+  sku?: string;
+  productId?: string | number;
+  handle?: string;
+}
+
+/** Selectable option of a product (configurable attribute, Shopify option, WooCommerce attribute) */
+export interface ProductOption {
+  /** Add request field for the selection (Magento super_attribute), when selections go by id */
+  field?: MissingCartOption['field'];
+  /** Attribute / option id (key in that field) or name */
+  id: string;
+  code?: string;
+  label: string;
+  values: Array<{ id: string; label: string; inStock?: boolean }>;
+}
+
+/** Purchasable combination of option values */
+export interface ProductVariant {
+  /** Id to add to the cart (Shopify variant, WooCommerce variation, Magento child product) */
+  variantId: string;
+  sku?: string;
+  price: number;
+  inStock: boolean;
+  /** ProductOption id -> value id */
+  selection: Record<string, string>;
 }
 
-export type CartRequest = CartListRequest | CartAddRequest | CartUpdateRequest | CartRemoveRequest | CartClearRequest;
+/** Product as the current shopper sees it (store view, currency, customer group). Amounts in minor units. */
+export interface NormalizedProduct {
+  productId: string;
+  sku?: string;
+  /** Shopify handle, Magento url key, WooCommerce slug */
+  handle?: string;
+  name: string;
+  url?: string;
+  imageUrl?: string;
+  currency: string | null;
+  /** Final price (lowest variant price for configurable products) */
+  price: number;
+  /** Price before discounts, when different */
+  regularPrice?: number;
+  inStock: boolean;
+  /** Salable quantity, when the platform exposes it (often only when stock is low) */
+  stockQty?: number;
+  /** Empty for simple products; search results may leave options and variants out */
+  options?: ProductOption[];
+  variants?: ProductVariant[];
+  /** Original platform product object */
+  raw?: unknown;
+}
+
+export interface CatalogGetRequest {
+  type: 'SCENARO_CATALOG_GET_REQUEST';
+  requestId: string;
+  data: ProductQuery;
+}
+
+export interface CatalogSearchRequest {
+  type: 'SCENARO_CATALOG_SEARCH_REQUEST';
+  requestId: string;
+  data: {
+    query: string;
+    /** Default 10, at most 50 */
+    limit?: number;
+  };
+}
+
+export type CatalogRequest = CatalogGetRequest | CatalogSearchRequest;
+
+export interface CatalogResponse {
+  type: 'SCENARO_CATALOG_RESPONSE';
+  requestId: string;
+  success: boolean;
+  /** Product (get) or products (search) */
+  data?: NormalizedProduct | NormalizedProduct[] | null;
+  error?: CartError;
+}
+
+/** Outcome of a catalog request, sent by the RPC channel as SCENARO_CATALOG_RESPONSE */
+export type CatalogResult = Pick<CatalogResponse, 'success' | 'data' | 'error'>;
+
+export interface NormalizedWishlistItem {
+  itemId: string;
+  productId: string;
+  sku?: string;
+  name: string;
+  /** Quantity saved, when the platform exposes it */
+  qty?: number;
+  /** Unit price in minor units, when the platform exposes it */
+  price?: number;
+  imageUrl?: string;
+  url?: string;
+  options?: Array<{ label: string; value: string }>;
+  /** False when the item cannot go to the cart as is (out of stock, options to choose) */
+  canMoveToCart?: boolean;
+}
+
+/** Shopper's wishlist (saved for later); only available to logged-in shoppers */
+export interface NormalizedWishlist {
+  items: NormalizedWishlistItem[];
+  /** Items in the wishlist; more than items.length when the platform only lists the most recent ones */
+  itemCount: number;
+  currency?: string | null;
+  /** Original platform wishlist object */
+  raw?: unknown;
+}
+
+export interface WishlistListRequest {
+  type: 'SCENARO_WISHLIST_LIST_REQUEST';
+  requestId: string;
+}
+
+export interface WishlistAddRequest {
+  type: 'SCENARO_WISHLIST_ADD_REQUEST';
+  requestId: string;
+  /** Same product and option fields as a cart add request */
+  data: CartAddParams;
+}
+
+export interface WishlistRemoveRequest {
+  type: 'SCENARO_WISHLIST_REMOVE_REQUEST';
+  requestId: string;
+  data: {
+    itemId: string | number;
+  };
+}
+
+export interface WishlistMoveToCartRequest {
+  type: 'SCENARO_WISHLIST_MOVE_TO_CART_REQUEST';
+  requestId: string;
+  data: {
+    itemId: string | number;
+    qty?: number;
+  };
+}
+
+export type WishlistRequest =
+  | WishlistListRequest
+  | WishlistAddRequest
+  | WishlistRemoveRequest
+  | WishlistMoveToCartRequest;
+
+export interface WishlistResponse {
+  type: 'SCENARO_WISHLIST_RESPONSE';
+  requestId: string;
+  success: boolean;
+  data?: NormalizedWishlist | null;
+  /** Updated cart (move to cart) */
+  cart?: NormalizedCart;
+  error?: CartError;
+}
+
+/** Outcome of a wishlist request, sent by the RPC channel as SCENARO_WISHLIST_RESPONSE */
+export type WishlistResult = Pick<WishlistResponse, 'success' | 'data' | 'cart' | 'error'>;
+
+export type CartRequest =
+  | CartListRequest
+  | CartAddRequest
+  | CartUpdateRequest
+  | CartRemoveRequest
+  | CartClearRequest
+  | CartBatchRequest
+  | CouponApplyRequest
+  | CouponRemoveRequest;
 
 export interface Connector {
   name: string;
   refreshCart(): Promise<void>;
-  listCart?(): Promise<any>;
-  addToCart?(params: { productId: string | number; qty?: number }): Promise<any>;
-  updateCart?(params: { itemId: string | number; qty: number }): Promise<any>;
-  removeCart?(params: { itemId: string | number }): Promise<any>;
-  clearCart?(): Promise<void>;
+  listCart?(): Promise<NormalizedCart>;
+  addToCart?(params: CartAddParams, options?: CartCallOptions): Promise<NormalizedCart>;
+  updateCart?(params: { itemId: string | number; qty: number }, options?: CartCallOptions): Promise<NormalizedCart>;
+  removeCart?(params: { itemId: string | number }, options?: CartCallOptions): Promise<NormalizedCart>;
+  /** onProgress is called as items are removed, for connectors that clear line by line */
+  clearCart?(onProgress?: (progress: CartProgress) => void): Promise<NormalizedCart>;
+  /**
+   * Run operations in order with a single storefront refresh, stopping at the first failure
+   * (failed operations are reported in results, not thrown). Without it, the engine calls
+   * addToCart/updateCart/removeCart one by one.
+   */
+  batchCart?(operations: CartOperation[], onProgress?: (progress: CartProgress) => void): Promise<CartBatchResult>;
+  /** Apply a coupon code; rejects with COUPON_INVALID when the store refuses it */
+  applyCoupon?(code: string): Promise<NormalizedCart>;
+  /** Remove a coupon, or every applied coupon when code is omitted */
+  removeCoupon?(code?: string): Promise<NormalizedCart>;
+  /** Product priced for the current shopper; rejects with PRODUCT_NOT_FOUND */
+  getProduct?(query: ProductQuery): Promise<NormalizedProduct>;
+  /** Products matching a search query, best matches first */
+  searchProducts?(query: string, limit: number): Promise<NormalizedProduct[]>;
+  /** Wishlist methods reject with LOGIN_REQUIRED for guest shoppers */
+  listWishlist?(): Promise<NormalizedWishlist>;
+  addToWishlist?(params: CartAddParams): Promise<NormalizedWishlist>;
+  removeFromWishlist?(params: { itemId: string | number }): Promise<NormalizedWishlist>;
+  /** Add a wishlist item to the cart and take it out of the wishlist */
+  moveWishlistToCart?(params: { itemId: string | number; qty?: number }): Promise<{ wishlist: NormalizedWishlist; cart: NormalizedCart }>;
+  /** Observe cart changes made on the host page; resolves to an unsubscribe function */
+  watchCart?(listener: (cart: NormalizedCart) => void): Promise<() => void>;
 }
 
 export interface Engine {
   name: string;
   initialize(publicationId: string): Promise<void>;
-  setIframe(iframe: HTMLIFrameElement): void;
+  /** targetOrigin is the embed origin; engines must only post to it */
+  setIframe(iframe: HTMLIFrameElement, targetOrigin: string | null): void;
   connect(): Promise<void>;
   onEnd(): Promise<void>;
-  handleCartRequest?(payload: CartRequest): Promise<void>;
+  /** Stop observing the host page (called when the widget closes) */
+  disconnect?(): void;
+  /** Run a cart request; the widget's RPC channel sends the result (and progress) to the iframe */
+  handleCartRequest?(payload: CartRequest, onProgress?: (progress: CartProgress) => void): Promise<CartResult>;
+  /** Use this connector instead of the engine's own platform detection */
+  setConnector?(connector: Connector): void;
+  /** Run a catalog request; the widget's RPC channel sends the result to the iframe */
+  handleCatalogRequest?(payload: CatalogRequest): Promise<CatalogResult>;
+  /** Run a wishlist request; the widget's RPC channel sends the result to the iframe */
+  handleWishlistRequest?(payload: WishlistRequest): Promise<WishlistResult>;
+  /** Whether the current connector supports an optional capability (e.g. 'coupon') */
+  supports?(capability: string): boolean;
+  /** Called with the new cart whenever the engine pushes SCENARO_CART_CHANGED */
+  setCartChangeListener?(listener: (cart: NormalizedCart) => void): void;
 }
@@ -0,0 +1,234 @@
+import { ScenaroPanelConfig } from '../types';
+
+/** Panel options with defaults applied */
+export type PanelOptions = Required<ScenaroPanelConfig>;
+
+export const DEFAULT_PANEL_OPTIONS: PanelOptions = {
+  position: 'right',
+  width: 400,
+  height: 640,
+  offsetX: 20,
+  offsetY: 20,
+  launcherColor: '#111827',
+  mobileBreakpoint: 640,
+};
+
+const LAUNCHER_SIZE = 56;
+/** Gap between launcher bubble and panel */
+const PANEL_GAP = 16;
+const ANIMATION_MS = 200;
+const Z_INDEX = '2147483647';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CHAT_ICON = 'M4 4h16a2 2 0 0 1 2 2v10a2 2 0 0 1-2 2H8l-4 4V6a2 2 0 0 1 2-2z';
+const CLOSE_ICON = 'M6 6l12 12M18 6L6 18';
+
+/** Build a 24x24 stroke icon (SVG via DOM API, no innerHTML so strict CSP/Trusted Types pages work). */
+function createIcon(path: string): SVGSVGElement {
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('viewBox', '0 0 24 24');
+  svg.setAttribute('width', '24');
+  svg.setAttribute('height', '24');
+  svg.setAttribute('fill', 'none');
+  svg.setAttribute('stroke', 'currentColor');
+  svg.setAttribute('stroke-width', '2');
+  svg.setAttribute('stroke-linecap', 'round');
+  svg.setAttribute('stroke-linejoin', 'round');
+  const el = document.createElementNS(SVG_NS, 'path');
+  el.setAttribute('d', path);
+  svg.appendChild(el);
+  return svg;
+}
+
+/**
+ * Floating launcher bubble + corner panel hosting the iframe.
+ * Styles are applied inline (CSSOM) rather than through a <style> tag so pages without
+ * style-src 'unsafe-inline' keep working; the mobile breakpoint is tracked with matchMedia.
+ */
+export class FloatingLauncher {
+  private options: PanelOptions;
+  private onToggle: () => void;
+  /** Appended to the element ids, so several widgets on a page don't share them ('' or '-2') */
+  private idSuffix: string;
+  private button: HTMLButtonElement | null = null;
+  private panel: HTMLDivElement | null = null;
+  private mediaQuery: MediaQueryList | null = null;
+  private mediaHandler: (() => void) | null = null;
+
+  constructor(options: PanelOptions, onToggle: () => void, idSuffix = '') {
+    this.options = options;
+    this.onToggle = onToggle;
+    this.idSuffix = idSuffix;
+  }
+
+  /** Update options (e.g. from ScenaroOpenConfig.panel); applied to the bubble and the next panel. */
+  configure(options: PanelOptions): void {
+    this.options = options;
+    if (this.button) this.styleButton(this.button);
+  }
+
+  /** Render the launcher bubble. No-op if already mounted. */
+  mount(): void {
+    if (this.button) return;
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.id = `scenaro-launcher${this.idSuffix}`;
+    button.setAttribute('aria-label', 'Open assistant');
+    button.setAttribute('aria-expanded', 'false');
+    button.appendChild(createIcon(CHAT_ICON));
+    this.styleButton(button);
+    button.addEventListener('click', () => this.onToggle());
+    document.body.appendChild(button);
+    this.button = button;
+  }
+
+  /** Wrap the iframe in the corner panel and animate it in. */
+  openPanel(iframe: HTMLIFrameElement): void {
+    this.removePanel();
+    const panel = document.createElement('div');
+    panel.id = `scenaro-panel${this.idSuffix}`;
+    panel.setAttribute('role', 'dialog');
+    Object.assign(panel.style, {
+      position: 'fixed',
+      zIndex: Z_INDEX,
+      overflow: 'hidden',
+      background: '#fff',
+      boxShadow: '0 12px 48px rgba(0, 0, 0, 0.25)',
+      opacity: '0',
+      transform: 'translateY(16px) scale(0.98)',
+      transition: `opacity ${ANIMATION_MS}ms ease, transform ${ANIMATION_MS}ms ease`,
+    });
+    Object.assign(iframe.style, { width: '100%', height: '100%', display: 'block' });
+    panel.appendChild(iframe);
+    panel.appendChild(this.createCloseButton());
+    document.body.appendChild(panel);
+    this.panel = panel;
+
+    this.mediaQuery = window.matchMedia(`(max-width: ${this.options.mobileBreakpoint}px)`);
+    this.mediaHandler = () => this.layoutPanel();
+    this.mediaQuery.addEventListener('change', this.mediaHandler);
+    this.layoutPanel();
+
+    // Next frame so the initial state is painted and the transition runs
+    requestAnimationFrame(() => {
+      panel.style.opacity = '1';
+      panel.style.transform = 'none';
+    });
+    this.setExpanded(true);
+  }
+
+  /** Animate the panel out, then remove it (and the iframe inside it). */
+  closePanel(): void {
+    const panel = this.panel;
+    this.stopMediaQuery();
+    this.panel = null;
+    this.setExpanded(false);
+    if (!panel) return;
+    panel.style.opacity = '0';
+    panel.style.transform = 'translateY(16px) scale(0.98)';
+    setTimeout(() => panel.remove(), ANIMATION_MS);
+  }
+
+  /** Remove bubble and panel immediately. */
+  destroy(): void {
+    this.removePanel();
+    this.button?.remove();
+    this.button = null;
+  }
+
+  private removePanel(): void {
+    this.stopMediaQuery();
+    this.panel?.remove();
+    this.panel = null;
+  }
+
+  private stopMediaQuery(): void {
+    if (this.mediaQuery && this.mediaHandler) {
+      this.mediaQuery.removeEventListener('change', this.mediaHandler);
+    }
+    this.mediaQuery = null;
+    this.mediaHandler = null;
+  }
+
+  private isMobile(): boolean {
+    return this.mediaQuery?.matches ?? false;
+  }
+
+  /** Corner panel on desktop, fullscreen below the mobile breakpoint. */
+  private layoutPanel(): void {
+    if (!this.panel) return;
+    const { position, width, height, offsetX, offsetY } = this.options;
+    const mobile = this.isMobile();
+    const side = position === 'left' ? 'left' : 'right';
+    const other = side === 'left' ? 'right' : 'left';
+    Object.assign(this.panel.style, mobile
+      ? { top: '0', left: '0', right: '0', bottom: '0', width: '100%', height: '100%', borderRadius: '0' }
+      : {
+          top: 'auto',
+          [other]: 'auto',
+          [side]: `${offsetX}px`,
+          bottom: `${offsetY + LAUNCHER_SIZE + PANEL_GAP}px`,
+          width: `min(${width}px, calc(100vw - ${offsetX * 2}px))`,
+          height: `min(${height}px, calc(100vh - ${offsetY + LAUNCHER_SIZE + PANEL_GAP * 2}px))`,
+          borderRadius: '16px',
+        });
+    // The bubble is under a fullscreen panel on mobile; the in-panel close button takes over
+    const close = this.panel.querySelector<HTMLButtonElement>('[data-scenaro-close]');
+    if (close) close.style.display = mobile ? 'flex' : 'none';
+  }
+
+  private createCloseButton(): HTMLButtonElement {
+    const close = document.createElement('button');
+    close.type = 'button';
+    close.setAttribute('aria-label', 'Close assistant');
+    close.setAttribute('data-scenaro-close', '');
+    close.appendChild(createIcon(CLOSE_ICON));
+    Object.assign(close.style, {
+      position: 'absolute',
+      top: '12px',
+      right: '12px',
+      width: '36px',
+      height: '36px',
+      display: 'none',
+      alignItems: 'center',
+      justifyContent: 'center',
+      border: 'none',
+      borderRadius: '50%',
+      background: 'rgba(0, 0, 0, 0.6)',
+      color: '#fff',
+      cursor: 'pointer',
+    });
+    close.addEventListener('click', () => this.onToggle());
+    return close;
+  }
+
+  private styleButton(button: HTMLButtonElement): void {
+    const { position, offsetX, offsetY, launcherColor } = this.options;
+    Object.assign(button.style, {
+      position: 'fixed',
+      zIndex: Z_INDEX,
+      bottom: `${offsetY}px`,
+      left: position === 'left' ? `${offsetX}px` : 'auto',
+      right: position === 'left' ? 'auto' : `${offsetX}px`,
+      width: `${LAUNCHER_SIZE}px`,
+      height: `${LAUNCHER_SIZE}px`,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      border: 'none',
+      borderRadius: '50%',
+      background: launcherColor,
+      color: '#fff',
+      boxShadow: '0 4px 16px rgba(0, 0, 0, 0.25)',
+      cursor: 'pointer',
+      transition: `transform ${ANIMATION_MS}ms ease`,
+    });
+  }
+
+  private setExpanded(expanded: boolean): void {
+    if (!this.button) return;
+    this.button.setAttribute('aria-expanded', String(expanded));
+    this.button.setAttribute('aria-label', expanded ? 'Close assistant' : 'Open assistant');
+    this.button.replaceChildren(createIcon(expanded ? CLOSE_ICON : CHAT_ICON));
+  }
+}
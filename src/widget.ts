@@ -1,539 +1,161 @@
-import { CapabilityRequest, CapabilityResponse, CartRequest, ScenaroEventPayload, ScenaroOpenConfig } from './types';
-
-/** Stored overflow values to restore when exiting fullscreen */
-let parentOverflow: { html: string; body: string } | null = null;
-
-/** Wake Lock API (screen awake) - optional on Navigator */
-interface WakeLockSentinel {
-  release(): Promise<void>;
+// Script tag build (cdn.scenaro.io/widget.js): reads data-* attributes and exposes window.Scenaro.
+// The SDK itself lives in ./core and is also published side-effect free via ./index (createScenaro).
+import { cdnUrlFromScript, defaultAllowedOrigins, resolveEnvironment } from './core/environment';
+import { DEFAULT_CONTAINER, parseOrigins, ScenaroWidget } from './core/widget';
+import {
+  ScenaroAnalyticsAdapterName,
+  ScenaroAnalyticsConfig,
+  ScenaroConsentConfig,
+  ScenaroCreateConfig,
+  ScenaroDisplayMode,
+  ScenaroEnvironment,
+  ScenaroPanelConfig,
+  ScenaroRedirectConfig
+} from './types';
+
+/** Configuration read from the script tag that loaded the widget. */
+interface ScriptConfig {
+  publicationId: string;
+  allowedOrigins: string[];
+  mode: ScenaroDisplayMode;
+  panel: ScenaroPanelConfig;
+  analytics?: ScenaroAnalyticsConfig;
+  consent?: ScenaroConsentConfig;
+  redirect: ScenaroRedirectConfig;
+  environment: Required<ScenaroEnvironment>;
 }
 
-class ScenaroWidget {
-  private publicationId: string;
-  private iframe: HTMLIFrameElement | null = null;
-  private engine: any = null; // Typed as any because it might be loaded dynamically
-  private listeners: Map<string, Function[]> = new Map();
-  private metadata: Record<string, any> = {};
-  /** True when iframe is appended to body (fullscreen), so we hide parent scrollbars */
-  private isFullscreenAttachment: boolean = false;
-  /** Viewport listeners for fullscreen dynamic height - removed in close() */
-  private viewportResizeHandler: (() => void) | null = null;
-  private wakeLockSentinel: WakeLockSentinel | null = null;
-  private visibilityChangeHandler: (() => void) | null = null;
-
-  constructor() {
-    this.publicationId = this.detectConfig();
-    this.init();
-    // Mark as initialized
-    (window as any).Scenaro._initialized = true;
-  }
-
-  private detectConfig(): string {
-    // Find the script tag that loaded this widget
-    // data-publication-id contains the publication ID
-    const scripts = document.getElementsByTagName('script');
-    let publicationId = '';
-    
-    for (let i = 0; i < scripts.length; i++) {
-      const script = scripts[i];
-      if (script.dataset.publicationId && script.dataset.publicationId !== '') {
-        publicationId = script.dataset.publicationId;
-        break;
-      }
-    }
-    if (!publicationId) {
-      console.warn('[Scenaro] No data-publication-id found. Please ensure the data-publication-id attribute is set on the script tag.');
-    }
-
-    return publicationId;
-  }
-
-
-  private init() {
-    // Expose global API
-    (window as any).Scenaro = {
-      open: this.open.bind(this),
-      close: this.close.bind(this),
-      on: this.on.bind(this),
-      off: this.off.bind(this),
-      updateMetadata: this.updateMetadata.bind(this),
-    };
-
-    // Listen for messages from Iframe
-    window.addEventListener('message', this.handleMessage.bind(this));
-    
-    // Listen for language changes
-    window.addEventListener('languageChanged', () => {
-      this.handleLanguageChange();
-    });
-  }
-
-  public async open(config?: ScenaroOpenConfig) {
-    if (this.iframe) return; // Already open
-
-    // Publication ID: config override or script tag
-    const publicationId = (config?.publicationId && config.publicationId.trim() !== '')
-      ? config.publicationId.trim()
-      : this.publicationId;
-
-    // Store metadata if provided
-    if (config?.metadata) {
-      this.metadata = { ...this.metadata, ...config.metadata };
-    }
-
-    // Emit 'open' event
-    this.emit('open');
-
-    await this.createIframe(publicationId);
-    await this.loadEngine(publicationId);
-  }
-
-  public close() {
-    if (this.iframe) {
-      this.stopViewportListeners();
-      this.stopWakeLockVisibilityReacquire();
-      this.releaseWakeLock();
-      // Restore parent scrollbars when iframe was attached to body (no container)
-      this.setParentScrollbarsHidden(false);
-      this.isFullscreenAttachment = false;
-      this.iframe.remove();
-      this.iframe = null;
-      // Emit 'close' event
-      this.emit('close');
-    }
-  }
-
-  /** Hide or restore scrollbars on the parent document (html + body) when iframe is fullscreen. */
-  private setParentScrollbarsHidden(hide: boolean): void {
-    const doc = document;
-    const html = doc.documentElement;
-    const body = doc.body;
-    if (hide) {
-      parentOverflow = {
-        html: html.style.overflow || '',
-        body: body.style.overflow || '',
-      };
-      html.style.overflow = 'hidden';
-      body.style.overflow = 'hidden';
-    } else if (parentOverflow) {
-      html.style.overflow = parentOverflow.html;
-      body.style.overflow = parentOverflow.body;
-      parentOverflow = null;
-    }
-  }
-
-  /** Current visible viewport height (accounts for mobile browser bar). Used for fullscreen iframe height. */
-  private getVisibleHeight(): number {
-    const vv = (window as Window & { visualViewport?: { height: number } }).visualViewport;
-    return (vv?.height ?? window.innerHeight) || window.innerHeight;
-  }
-
-  /** Apply current viewport height to iframe (fullscreen mode only). Call on resize/orientation. */
-  private applyViewportHeight(): void {
-    if (!this.iframe || !this.isFullscreenAttachment) return;
-    const h = this.getVisibleHeight();
-    this.iframe.style.height = `${h}px`;
-  }
-
-  /** Attach resize/orientation/visualViewport listeners so fullscreen iframe height tracks visible viewport. */
-  private startViewportListeners(): void {
-    if (!this.isFullscreenAttachment || this.viewportResizeHandler) return;
-    const apply = () => this.applyViewportHeight();
-    this.viewportResizeHandler = apply;
-    window.addEventListener('resize', apply);
-    window.addEventListener('orientationchange', apply);
-    const vv = (window as Window & { visualViewport?: { addEventListener: (e: string, fn: () => void) => void } }).visualViewport;
-    if (vv?.addEventListener) vv.addEventListener('resize', apply);
-    this.applyViewportHeight();
-  }
-
-  /** Remove viewport listeners. Call on close. */
-  private stopViewportListeners(): void {
-    if (!this.viewportResizeHandler) return;
-    const apply = this.viewportResizeHandler;
-    this.viewportResizeHandler = null;
-    window.removeEventListener('resize', apply);
-    window.removeEventListener('orientationchange', apply);
-    const vv = (window as Window & { visualViewport?: { removeEventListener: (e: string, fn: () => void) => void } }).visualViewport;
-    if (vv?.removeEventListener) vv.removeEventListener('resize', apply);
-  }
-
-  /** Acquire screen wake lock so device doesn't sleep while iframe is open. No-op if unsupported. */
-  private async acquireWakeLock(): Promise<void> {
-    const nav = navigator as Navigator & { wakeLock?: { request(type: 'screen'): Promise<WakeLockSentinel> } };
-    if (!nav.wakeLock) return;
-    try {
-      this.wakeLockSentinel = await nav.wakeLock.request('screen');
-    } catch {
-      // Unsupported or denied; fail silently
-    }
-  }
-
-  /** Release wake lock. Call on close. */
-  private async releaseWakeLock(): Promise<void> {
-    if (!this.wakeLockSentinel) return;
-    try {
-      await this.wakeLockSentinel.release();
-    } catch {
-      // ignore
-    }
-    this.wakeLockSentinel = null;
-  }
-
-  /** Re-acquire wake lock when tab becomes visible and iframe is still open. */
-  private startWakeLockVisibilityReacquire(): void {
-    if (this.visibilityChangeHandler) return;
-    this.visibilityChangeHandler = () => {
-      if (document.visibilityState === 'visible' && this.iframe) {
-        this.acquireWakeLock();
-      }
-    };
-    document.addEventListener('visibilitychange', this.visibilityChangeHandler);
-  }
-
-  /** Remove visibilitychange listener. Call on close. */
-  private stopWakeLockVisibilityReacquire(): void {
-    if (!this.visibilityChangeHandler) return;
-    document.removeEventListener('visibilitychange', this.visibilityChangeHandler);
-    this.visibilityChangeHandler = null;
-  }
-
-  public on(event: string, callback: Function) {
-    if (!this.listeners.has(event)) {
-        this.listeners.set(event, []);
-    }
-    this.listeners.get(event)?.push(callback);
-  }
-
-  public off(event: string, callback: Function) {
-      if (!this.listeners.has(event)) return;
-      
-      const callbacks = this.listeners.get(event);
-      if (callbacks) {
-          const index = callbacks.indexOf(callback);
-          if (index !== -1) {
-              callbacks.splice(index, 1);
-          }
-      }
-  }
-
-  private emit(event: string, data?: any) {
-      const callbacks = this.listeners.get(event);
-      if (callbacks) {
-          callbacks.forEach(cb => cb(data));
-      }
-  }
-
-  private detectCMS(): string | null {
-    // Simple CMS detection - can be extended later
-    if (typeof window !== 'undefined' && (window as any).requirejs) {
-      // Very rough heuristic for Magento 2
-      return 'magento';
-    }
-    return null;
-  }
-
-  private adapterLoaded: string | null = null;
-
-  private async loadAdapter(adapterName: string): Promise<void> {
-    // Skip if adapter already loaded (prevents React Strict Mode double-mount issues)
-    if (this.adapterLoaded === adapterName) {
-      return;
-    }
-
-    // Set flag immediately to prevent race condition with concurrent calls
-    this.adapterLoaded = adapterName;
-
-    if (!this.publicationId) {
-      console.warn('[Scenaro] No publication ID available, cannot load adapter');
-      return;
-    }
-
-    const cdnBaseUrl = this.getCDNBaseUrl();
-    const engineName = 'commerce'; // Default to commerce for now
-
-    try {
-      // Load connector
-      const connectorUrl = `${cdnBaseUrl}/connectors/${adapterName}.js`;
-      await import(connectorUrl);
-      console.log(`[Scenaro] Loaded connector: ${adapterName}`);
-
-      // Engine already created by loadEngine(); only load connector for this capability
-      if (this.engine) {
-        return;
-      }
-
-      // Load engine (only if not already loaded by loadEngine())
-      const engineUrl = `${cdnBaseUrl}/engines/${engineName}.js`;
-      const engineModule = await import(engineUrl);
-      const EngineClass = engineModule[`${engineName.charAt(0).toUpperCase() + engineName.slice(1)}Engine`];
-
-      if (!EngineClass) {
-        console.error(`[Scenaro] Engine class not found: ${engineName}`);
-        return;
-      }
-
-      this.engine = new EngineClass();
-
-      if (this.iframe) {
-        this.engine.setIframe(this.iframe);
-      }
-
-      await this.engine.initialize(this.publicationId);
-    } catch (error) {
-      console.error(`[Scenaro] Failed to load adapter ${adapterName}:`, error);
-    }
-  }
-
-  private async handleCapabilityRequest(payload: CapabilityRequest): Promise<void> {
-    // Resolve adapter: use payload.adapter hint or detect CMS
-    const adapter = payload.adapter || this.detectCMS();
-
-    const capabilities: Record<string, boolean> = {};
-
-    // For each requested capability, try to load and mark as available
-    for (const capability of payload.capabilities) {
-      if (capability === 'cart' && adapter) {
-        try {
-          await this.loadAdapter(adapter);
-          capabilities.cart = true;
-        } catch (error) {
-          console.warn(`[Scenaro] Failed to load cart capability with adapter ${adapter}:`, error);
-          capabilities.cart = false;
-        }
-      } else {
-        capabilities[capability] = false; // Unknown capability or no adapter
-      }
-    }
-
-    // Send response to iframe
-    const response: CapabilityResponse = {
-      type: 'SCENARO_CAPABILITY_RESPONSE',
-      requestId: payload.requestId,
-      capabilities
-    };
-
-    if (this.iframe && this.iframe.contentWindow) {
-      this.iframe.contentWindow.postMessage(response, '*');
-    }
-  }
-
-  private async createIframe(publicationId?: string) {
-    const id = publicationId ?? this.publicationId;
-    const iframe = document.createElement('iframe');
-    iframe.id = 'scenaro-iframe';
-
-    if (!id) {
-      console.warn('[Scenaro] No publication ID available, cannot create iframe');
-      return;
-    }
-
-    // Build stable embed URL (CloudFront rewrites /{uuid} to API path)
-    const baseUrl = `https://embed.scenaro.io/${id}`;
-    const url = new URL(baseUrl);
-
-    // Add language from metadata if available
-    if (this.metadata.language) {
-      url.searchParams.append('language', this.metadata.language);
-    }
-
-    iframe.src = url.toString();
-    iframe.allow = "microphone *; autoplay *";
-    iframe.style.border = 'none';
-    iframe.style.zIndex = '2147483647';
+const DISPLAY_MODES: ScenaroDisplayMode[] = ['auto', 'inline', 'fullscreen', 'launcher'];
+const ANALYTICS_ADAPTERS: ScenaroAnalyticsAdapterName[] = ['dataLayer', 'gtag', 'segment'];
+
+/** Read launcher panel layout from data-position, data-panel-width, data-panel-height, data-offset-x, data-offset-y, data-launcher-color, data-mobile-breakpoint. */
+function parsePanelConfig(dataset: DOMStringMap): ScenaroPanelConfig {
+  const panel: ScenaroPanelConfig = {};
+  const toNumber = (value?: string) => {
+    const n = value !== undefined ? parseInt(value, 10) : NaN;
+    return Number.isFinite(n) ? n : undefined;
+  };
+  if (dataset.position === 'left' || dataset.position === 'right') panel.position = dataset.position;
+  const numbers = {
+    width: toNumber(dataset.panelWidth),
+    height: toNumber(dataset.panelHeight),
+    offsetX: toNumber(dataset.offsetX),
+    offsetY: toNumber(dataset.offsetY),
+    mobileBreakpoint: toNumber(dataset.mobileBreakpoint),
+  };
+  for (const [key, value] of Object.entries(numbers)) {
+    if (value !== undefined) panel[key as keyof typeof numbers] = value;
+  }
+  if (dataset.launcherColor) panel.launcherColor = dataset.launcherColor;
+  return panel;
+}
 
-    // Prefer #scenaro-container so iframe is in-page (not fullscreen). Wait for it if not yet in DOM.
-    const container = await this.getContainerOrWait();
-    if (container) {
-      Object.assign(iframe.style, { width: '100%', height: '100%', display: 'block' });
-      container.appendChild(iframe);
-    } else {
-      const visibleHeight = this.getVisibleHeight();
-      Object.assign(iframe.style, {
-        position: 'fixed',
-        top: '0',
-        left: '0',
-        width: '100vw',
-        height: `${visibleHeight}px`,
-      });
-      this.setParentScrollbarsHidden(true);
-      this.isFullscreenAttachment = true;
-      document.body.appendChild(iframe);
-      this.iframe = iframe;
-      this.startViewportListeners();
-    }
+/** Read data-analytics="dataLayer,gtag,segment" and data-analytics-consent="pending|granted" (unset: follows data-consent). */
+function parseAnalyticsConfig(dataset: DOMStringMap): ScenaroAnalyticsConfig | undefined {
+  if (!dataset.analytics) return undefined;
+  const adapters = dataset.analytics
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name): name is ScenaroAnalyticsAdapterName => ANALYTICS_ADAPTERS.includes(name as ScenaroAnalyticsAdapterName));
+  const consent = dataset.analyticsConsent;
+  return { adapters, ...((consent === 'pending' || consent === 'granted') && { consent }) };
+}
 
-    this.iframe = iframe;
-    this.acquireWakeLock();
-    this.startWakeLockVisibilityReacquire();
+/** Read data-redirect-hosts="shop.example.com,*.example.com", data-redirect-target="_blank", data-redirect-utm="true". */
+function parseRedirectConfig(dataset: DOMStringMap): ScenaroRedirectConfig {
+  const redirect: ScenaroRedirectConfig = {};
+  if (dataset.redirectHosts) {
+    redirect.allowedHosts = dataset.redirectHosts.split(',').map((host) => host.trim()).filter(Boolean);
   }
-
-  /** Wait briefly for #scenaro-container (e.g. React mount) so iframe can be in-page, not fullscreen. */
-  private getContainerOrWait(): Promise<HTMLElement | null> {
-    const id = 'scenaro-container';
-    const existing = document.getElementById(id);
-    if (existing) return Promise.resolve(existing);
-
-    const maxWait = 800;
-    const interval = 50;
-    return new Promise((resolve) => {
-      const deadline = Date.now() + maxWait;
-      const check = () => {
-        const el = document.getElementById(id);
-        if (el) {
-          resolve(el);
-          return;
-        }
-        if (Date.now() >= deadline) {
-          resolve(null);
-          return;
-        }
-        setTimeout(check, interval);
-      };
-      setTimeout(check, interval);
-    });
+  if (dataset.redirectTarget === '_self' || dataset.redirectTarget === '_blank') {
+    redirect.target = dataset.redirectTarget;
   }
-
-  private async loadEngine(publicationId?: string) {
-      const id = publicationId ?? this.publicationId;
-      if (!id) {
-          console.warn('[Scenaro] No publication ID available, cannot load engine');
-          return;
-      }
-
-      // Default to 'commerce' engine
-      const engineName = 'commerce';
-      
-      try {
-          // Determine CDN base URL from current script location or use default
-          const cdnBaseUrl = this.getCDNBaseUrl();
-          
-          // Load engine from CDN using absolute URL
-          const engineUrl = `${cdnBaseUrl}/engines/${engineName}.js`;
-          const engineModule = await import(engineUrl);
-          const EngineClass = engineModule[`${engineName.charAt(0).toUpperCase() + engineName.slice(1)}Engine`];
-          
-          if (!EngineClass) {
-              console.error(`[Scenaro] Engine class not found: ${engineName}`);
-              return;
-          }
-          
-          this.engine = new EngineClass();
-          
-          if (this.iframe) {
-              this.engine.setIframe(this.iframe);
-          }
-          
-          await this.engine.initialize(id);
-      } catch (error) {
-          console.error(`[Scenaro] Failed to load engine ${engineName}:`, error);
-      }
-  }
-
-  private getCDNBaseUrl(): string {
-      return 'https://cdn.scenaro.io';
+  if (dataset.redirectUtm === 'true') {
+    redirect.utm = true;
   }
+  return redirect;
+}
 
-  private handleMessage(event: MessageEvent) {
-      // Security check: in production, check event.origin against allowed origins
-      
-      const payload = event.data as ScenaroEventPayload;
+/** Read data-embed-url, data-cdn-url, data-api-url. The CDN defaults to the folder this script was loaded from. */
+function parseEnvironment(script: HTMLScriptElement | null): Required<ScenaroEnvironment> {
+  const dataset = script?.dataset ?? {};
+  return resolveEnvironment({
+    embedUrl: dataset.embedUrl,
+    cdnUrl: dataset.cdnUrl || cdnUrlFromScript(script?.src ?? ''),
+    apiUrl: dataset.apiUrl,
+  });
+}
 
-      // Check if this is a capability request
-      if (payload.type === 'SCENARO_CAPABILITY_REQUEST') {
-          this.handleCapabilityRequest(payload as CapabilityRequest);
-          return;
+function detectScriptConfig(): ScriptConfig {
+  // Find the script tag that loaded this widget
+  // data-publication-id contains the publication ID
+  // data-allowed-origins optionally overrides the trusted embed origins (staging, local)
+  const scripts = document.getElementsByTagName('script');
+  let publicationId = '';
+  let allowedOrigins: string[] | null = null;
+  let environment = parseEnvironment(document.currentScript as HTMLScriptElement | null);
+  let mode: ScenaroDisplayMode = 'auto';
+  let panel: ScenaroPanelConfig = {};
+  let analytics: ScenaroAnalyticsConfig | undefined;
+  let consent: ScenaroConsentConfig | undefined;
+  let redirect: ScenaroRedirectConfig = {};
+  
+  for (let i = 0; i < scripts.length; i++) {
+    const script = scripts[i];
+    if (script.dataset.publicationId && script.dataset.publicationId !== '') {
+      publicationId = script.dataset.publicationId;
+      environment = parseEnvironment(script);
+      if (script.dataset.allowedOrigins) {
+        allowedOrigins = parseOrigins(script.dataset.allowedOrigins);
       }
-
-      // Check if this is a cart CRUD request
-      const cartRequestTypes = [
-          'SCENARO_CART_LIST_REQUEST',
-          'SCENARO_CART_ADD_REQUEST',
-          'SCENARO_CART_UPDATE_REQUEST',
-          'SCENARO_CART_REMOVE_REQUEST',
-          'SCENARO_CART_CLEAR_REQUEST'
-      ];
-      
-      if (cartRequestTypes.includes(payload.type)) {
-          const cartPayload = payload as CartRequest;
-          // Forward cart request to engine; if engine not ready, send error response so iframe does not timeout
-          if (this.engine && typeof this.engine.handleCartRequest === 'function') {
-              this.engine.handleCartRequest(cartPayload);
-          } else {
-              console.warn('[Scenaro] Engine does not support cart requests');
-              this.sendCartErrorToIframe(cartPayload.requestId, 'Cart engine not ready');
-          }
-          return;
+      // data-mode="launcher" + panel layout attributes
+      if (DISPLAY_MODES.includes(script.dataset.mode as ScenaroDisplayMode)) {
+        mode = script.dataset.mode as ScenaroDisplayMode;
       }
-      
-      switch (payload.type) {
-          case 'SCENARO_READY':
-              console.log('[Scenaro] Iframe is ready');
-              this.emit('ready');
-              // Send metadata to iframe when it's ready
-              this.sendMetadataToIframe();
-              if (this.engine) {
-                  this.engine.connect();
-              }
-              break;
-          case 'SCENARO_END':
-              this.emit('end', payload.data);
-              if (this.engine) {
-                  this.engine.onEnd();
-              }
-              this.close();
-              break;
-          case 'SCENARO_REDIRECT':
-              const url = payload.url;
-              if (url && typeof url === 'string') {
-                  window.location.href = url;
-              }
-              break;
+      panel = parsePanelConfig(script.dataset);
+      analytics = parseAnalyticsConfig(script.dataset);
+      redirect = parseRedirectConfig(script.dataset);
+      // data-consent="block" | "defer": wait for the site's CMP before opening
+      if (script.dataset.consent === 'block' || script.dataset.consent === 'defer') {
+        consent = { whenMissing: script.dataset.consent };
       }
-  }
-
-  private sendMetadataToIframe() {
-    if (this.iframe && Object.keys(this.metadata).length > 0) {
-      this.iframe.contentWindow?.postMessage({
-        type: 'SCENARO_METADATA',
-        metadata: this.metadata
-      }, '*');
+      break;
     }
   }
-
-  /** Send cart error response to iframe when engine is not available (avoids iframe timeout). */
-  private sendCartErrorToIframe(requestId: string, error: string): void {
-    if (this.iframe?.contentWindow) {
-      this.iframe.contentWindow.postMessage({
-        type: 'SCENARO_CART_RESPONSE',
-        requestId,
-        success: false,
-        error
-      }, '*');
-    }
+  if (!publicationId) {
+    console.warn('[Scenaro] No data-publication-id found. Please ensure the data-publication-id attribute is set on the script tag.');
   }
 
-  public updateMetadata(metadata: Record<string, any>) {
-    this.metadata = { ...this.metadata, ...metadata };
-    // Send updated metadata to iframe if it's already open
-    if (this.iframe) {
-      this.sendMetadataToIframe();
-    }
-  }
-
-  private handleLanguageChange() {
-    // Get current language from localStorage or detect from browser
-    const savedLanguage = localStorage.getItem('preferredLanguage');
-    const browserLang = navigator.language || (navigator as any).userLanguage;
-    const language = savedLanguage || (browserLang.startsWith('fr') ? 'fr' : 'en');
-    
-    // Update metadata with language
-    this.updateMetadata({ language });
-  }
+  return {
+    publicationId,
+    allowedOrigins: allowedOrigins ?? defaultAllowedOrigins(environment),
+    mode,
+    panel,
+    analytics,
+    consent,
+    redirect,
+    environment,
+  };
 }
 
 // Auto-initialize on load
 if (typeof window !== 'undefined') {
     // Wait for DOM to be ready if needed, or just run
-    new ScenaroWidget();
+    const config = detectScriptConfig();
+    const widget = new ScenaroWidget({
+        ...config,
+        container: DEFAULT_CONTAINER,
+        iframeId: 'scenaro-iframe',
+    });
+    // Expose global API: script tag instance + factory for additional instances
+    (window as any).Scenaro = {
+        ...widget.handle(),
+        // Additional instances use the script tag's endpoints unless they set their own
+        create: (createConfig: ScenaroCreateConfig) => ScenaroWidget.create({
+            ...createConfig,
+            environment: { ...config.environment, ...createConfig?.environment },
+        }),
+        // Mark as initialized
+        _initialized: true,
+    };
 }
@@ -26,7 +26,29 @@ function copyRuntime() {
   }
 }
 
-export default defineConfig({
+// `vite build --mode package` builds the side-effect free npm entries (createScenaro, testing) on their own,
+// so the CDN widget.js does not share chunks with them. They share one ScenaroWidget chunk, which
+// lets modules provided by widget-sdk/testing reach widgets created with createScenaro.
+export default defineConfig(({ mode }) => mode === 'package' ? {
+  publicDir: false,
+  build: {
+    outDir: 'dist',
+    emptyOutDir: false,
+    // Readable output for npm consumers; keeps the webpackIgnore hint on the CDN import()
+    minify: false,
+    lib: {
+      entry: {
+        index: resolve(__dirname, 'src/index.ts'),
+        testing: resolve(__dirname, 'src/testing/index.ts')
+      },
+      formats: ['es', 'cjs'],
+      fileName: (format, entryName) => {
+        const ext = format === 'es' ? 'js' : 'cjs';
+        return `${entryName}.${ext}`;
+      }
+    }
+  }
+} : {
   publicDir: false, // Disable default copy to avoid conflicts if any, or keep it. 
   // Lib mode often ignores publicDir for index.html but should copy assets. 
   // However, let's force it with our plugin to be sure.
@@ -38,7 +60,10 @@ export default defineConfig({
       entry: {
         widget: resolve(__dirname, 'src/widget.ts'),
         'engines/commerce': resolve(__dirname, 'src/engines/commerce/index.ts'),
-        'connectors/magento': resolve(__dirname, 'src/connectors/magento/index.ts')
+        'connectors/magento': resolve(__dirname, 'src/connectors/magento/index.ts'),
+        'connectors/shopify': resolve(__dirname, 'src/connectors/shopify/index.ts'),
+        'connectors/woocommerce': resolve(__dirname, 'src/connectors/woocommerce/index.ts'),
+        'connectors/mock': resolve(__dirname, 'src/connectors/mock/index.ts')
       },
       formats: ['es', 'cjs'],
       fileName: (format, entryName) => {